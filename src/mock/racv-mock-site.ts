@@ -0,0 +1,492 @@
+/**
+ * Local stand-in for the RACV motor quote site (my.racv.com.au) so the scraper can
+ * be exercised with no network. It reproduces the field names, step order and Aura
+ * `ApexAction.execute` responses the scraper depends on.
+ *
+ * Scenarios are chosen by registration number:
+ *   NOTFND   — rego lookup fails, "couldn't find a vehicle" on every attempt
+ *   HUON50   — rego lookup succeeds but the HUON call errors, forcing manual search
+ *   SYSERR   — first quote submission shows a "system error" page with BACK TO FORM
+ *   anything else — vehicle found, quote returned
+ *
+ * The quote page opens on Comprehensive with buttons to switch to the third party covers.
+ * Opened with ?p=MOTORCYCLE the rego lookup finds a motorcycle instead of the car.
+ *
+ * Usage: npx tsx src/mock/racv-mock-site.ts  (then RACV_BASE_URL=http://localhost:4010)
+ */
+import express from "express";
+import type { Server } from "http";
+import { fileURLToPath } from "url";
+import type { CoverType } from "../utils/rating-data.js";
+
+export interface MockVehicle {
+  yearCreate: string;
+  makeName: string;
+  familyName: string;
+  bodyStyleName: string;
+  variantName: string;
+}
+
+const DEFAULT_VEHICLE: MockVehicle = {
+  yearCreate: "2019",
+  makeName: "TOYOTA",
+  familyName: "COROLLA",
+  bodyStyleName: "HATCHBACK",
+  variantName: "ASCENT SPORT",
+};
+
+const MOTORCYCLE_VEHICLE: MockVehicle = {
+  yearCreate: "2021",
+  makeName: "YAMAHA",
+  familyName: "MT-07",
+  bodyStyleName: "NAKED",
+  variantName: "LAMS",
+};
+
+const MOCK_ADDRESSES = [
+  "80 BOURKE STREET, MELBOURNE VIC 3000",
+  "1 SWANSTON STREET, MELBOURNE VIC 3000",
+  "12 CHAPEL STREET, WINDSOR VIC 3181",
+  "45 MOORABOOL STREET, GEELONG VIC 3220",
+];
+
+function auraSuccess(payload: unknown) {
+  return {
+    actions: [
+      {
+        id: "1;a",
+        state: "SUCCESS",
+        returnValue: { returnValue: { returnValue: JSON.stringify(payload) } },
+      },
+    ],
+  };
+}
+
+function auraError(message: string) {
+  return {
+    actions: [{ id: "1;a", state: "ERROR", error: [{ message }] }],
+  };
+}
+
+/** Deterministic premium so scraped results can be asserted on. */
+export function mockPremium(driverAge: number, claims: number, isMember: boolean): { annual: number; monthly: number } {
+  let annual = 1150;
+  if (driverAge < 25) annual *= 1.5;
+  else if (driverAge >= 70) annual *= 1.15;
+  annual *= 1 + claims * 0.15;
+  if (isMember) annual *= 0.9;
+  annual = Math.round(annual * 100) / 100;
+  const monthly = Math.round((annual / 12) * 1.05 * 100) / 100;
+  return { annual, monthly };
+}
+
+const MOCK_COVERS: { cover_type: CoverType; label: string; factor: number }[] = [
+  { cover_type: "comprehensive", label: "Comprehensive", factor: 1 },
+  { cover_type: "third_party_fire_theft", label: "Third Party, Fire & Theft", factor: 0.45 },
+  { cover_type: "third_party_property", label: "Third Party Property", factor: 0.28 },
+];
+
+/** A comprehensive mock premium scaled to another cover. */
+export function mockCoverPremium(
+  premium: { annual: number; monthly: number },
+  coverType: CoverType
+): { annual: number; monthly: number } {
+  const { factor } = MOCK_COVERS.find((c) => c.cover_type === coverType)!;
+  return {
+    annual: Math.round(premium.annual * factor * 100) / 100,
+    monthly: Math.round(premium.monthly * factor * 100) / 100,
+  };
+}
+
+export interface MockDriver {
+  age: number;
+  licenceAge: number;
+  claims: number;
+}
+
+/** Priced on the highest-risk driver, with an age excess if anyone is under 25. */
+export function mockQuote(drivers: MockDriver[], isMember: boolean) {
+  const premiums = drivers.map((d) => mockPremium(d.age, d.claims, isMember));
+  const worst = premiums.reduce((a, b) => (b.annual > a.annual ? b : a));
+  const youngest = Math.min(...drivers.map((d) => d.age));
+  const driver_excesses = youngest < 21
+    ? [{ label: "Age excess (drivers under 21)", amount: 1300 }]
+    : youngest < 25
+      ? [{ label: "Age excess (drivers aged 21 to 24)", amount: 800 }]
+      : [];
+  const covers = MOCK_COVERS.map(({ cover_type, label }) => ({ label, ...mockCoverPremium(worst, cover_type) }));
+  return { ...worst, driver_excesses, covers };
+}
+
+const pageHtml = String.raw`<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <title>Car Insurance Quote | RACV (mock)</title>
+  <style>
+    body { font-family: sans-serif; max-width: 720px; margin: 24px auto; }
+    label { display: block; margin-top: 12px; }
+    .error { color: #b00020; }
+    [role='listbox'] { list-style: none; padding: 0; border: 1px solid #ccc; }
+    [role='option'] { padding: 6px; cursor: pointer; }
+  </style>
+</head>
+<body>
+  <h1>Car Insurance</h1>
+  <main id="app"></main>
+  <!-- Loaded from a separate file so page textContent matches the real site (no inline script text) -->
+  <script src="/s/motor-insurance.js"></script>
+</body>
+</html>`;
+
+const pageScript = String.raw`const app = document.getElementById('app');
+const state = { vehicle: null, form: {}, submissions: 0 };
+const product = new URLSearchParams(location.search).get('p') || 'CAR';
+
+async function aura(action, body) {
+  const res = await fetch('/s/sfsites/aura?r=1&aura.ApexAction.execute=1&action=' + action, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body || {})
+  });
+  return res.json();
+}
+
+function returnValue(data) {
+  const action = data && data.actions && data.actions[0];
+  if (!action || action.state !== 'SUCCESS') return null;
+  return JSON.parse(action.returnValue.returnValue.returnValue);
+}
+
+function describe(v) {
+  return v.yearCreate + ' ' + v.makeName + ' ' + v.familyName + ' ' + v.variantName;
+}
+
+function radios(name, values) {
+  return values.map(v =>
+    '<label><input type="radio" name="' + name + '" value="' + v + '"> ' + v + '</label>'
+  ).join('');
+}
+
+function checked(name) {
+  const el = document.querySelector('input[name="' + name + '"]:checked');
+  return el ? el.value : null;
+}
+
+// ── Step 1: registration lookup ──
+function showRego(message) {
+  app.innerHTML =
+    '<h2>Find your car</h2>' +
+    (message ? '<p class="error">' + message + '</p>' : '') +
+    '<label>Registration number <input name="rego" autocomplete="off"></label>' +
+    '<button id="find">Find your car</button>';
+  document.getElementById('find').onclick = findCar;
+}
+
+async function findCar() {
+  const rego = document.querySelector('input[name="rego"]').value.trim().toUpperCase();
+  state.form.rego = rego;
+  const lookup = returnValue(await aura('regoLookup', { rego, product }));
+  if (!lookup || !lookup.vehicles || lookup.vehicles.length === 0) {
+    showNotFound(null);
+    return;
+  }
+  state.vehicle = lookup.vehicles[0].vehicle;
+  const huon = returnValue(await aura('huonInfo', { rego, product }));
+  if (!huon) {
+    showNotFound(state.vehicle);
+    return;
+  }
+  showYourCar();
+}
+
+// "Couldn't find" page, with manual search when the rego lookup partially worked
+function showNotFound(partial) {
+  let html =
+    '<p class="error">Sorry, we couldn\'t find a vehicle with that registration.</p>' +
+    '<a href="#" id="byRego">Search by registration instead</a>';
+  if (partial) {
+    html +=
+      '<h3>Search for your car</h3>' +
+      '<label>Year <select name="vehicleYear"><option value="">Select year</option>' +
+      ['2017', '2018', '2019', '2020', '2021'].map(y => '<option' + (y === partial.yearCreate ? ' selected' : '') + '>' + y + '</option>').join('') +
+      '</select></label>' +
+      '<label>Make <select name="vehicleMake"><option value="">Choose make</option><option>MAZDA</option><option>TOYOTA</option><option>HYUNDAI</option></select></label>' +
+      '<div id="modelSlot"></div><div id="bodySlot"></div>' +
+      '<button id="manualSearch">Search</button>';
+  }
+  app.innerHTML = html;
+  document.getElementById('byRego').onclick = (e) => { e.preventDefault(); showRego(); };
+  if (!partial) return;
+
+  document.querySelector('select[name="vehicleMake"]').onchange = () => {
+    document.getElementById('modelSlot').innerHTML =
+      '<label>Model <select name="vehicleModel"><option value="">Choose model</option><option>COROLLA</option><option>CAMRY</option><option>RAV4</option></select></label>';
+    document.querySelector('select[name="vehicleModel"]').onchange = () => {
+      document.getElementById('bodySlot').innerHTML =
+        '<label>Body type <select name="vehicleBody"><option value="">Choose body type</option><option>HATCHBACK</option><option>SEDAN</option></select></label>';
+    };
+  };
+  document.getElementById('manualSearch').onclick = () => {
+    const model = document.querySelector('select[name="vehicleModel"]');
+    const body = document.querySelector('select[name="vehicleBody"]');
+    if (!model || !model.value || !body || !body.value) {
+      app.insertAdjacentHTML('beforeend', '<p class="error">Please complete all vehicle fields.</p>');
+      return;
+    }
+    showYourCar();
+  };
+}
+
+// ── Step 2: Your car ──
+function showYourCar() {
+  app.innerHTML =
+    '<h3>' + describe(state.vehicle) + '</h3>\n' +
+    '<p>— is this your car?</p>' +
+    '<label>Where is the car kept overnight? <input name="addressSearch" autocomplete="off"></label>' +
+    '<ul role="listbox" id="suggestions"></ul>' +
+    '<fieldset><legend>Is the car under finance?</legend>' + radios('UnderFinance', ['Yes', 'No']) + '</fieldset>' +
+    '<label>Purpose <select name="Purpose">' +
+    '<option value="">Select</option><option value="Private">Private</option>' +
+    '<option value="Business use &amp; not registered for GST">Business use &amp; not registered for GST</option>' +
+    '<option value="Business use &amp; registered for GST">Business use &amp; registered for GST</option>' +
+    '</select></label>' +
+    '<fieldset><legend>Registered in a business name?</legend>' + radios('vehicleRegisterInBusinessName', ['Yes', 'No']) + '</fieldset>' +
+    '<div id="carErrors"></div>' +
+    '<button id="continue">Continue</button>';
+
+  const input = document.querySelector('input[name="addressSearch"]');
+  input.oninput = async () => {
+    const res = await fetch('/mock/addresses?q=' + encodeURIComponent(input.value));
+    const matches = await res.json();
+    document.getElementById('suggestions').innerHTML =
+      matches.map(a => '<li role="option">' + a + '</li>').join('');
+    document.querySelectorAll('[role="option"]').forEach(li => {
+      li.onclick = () => {
+        state.form.address = li.textContent;
+        input.value = li.textContent;
+        document.getElementById('suggestions').innerHTML = '';
+      };
+    });
+  };
+
+  document.getElementById('continue').onclick = () => {
+    if (!state.form.address) {
+      document.getElementById('carErrors').innerHTML =
+        '<p class="error">Please select a valid address from the list.</p>';
+      return;
+    }
+    state.form.purpose = document.querySelector('select[name="Purpose"]').value;
+    showAboutYou();
+  };
+}
+
+// ── Step 3: About you ──
+// Each driver block uses the same field names suffixed with its index (0 = main driver)
+function driverBlock(i) {
+  return '<div class="driver" data-index="' + i + '">' +
+    '<h3>' + (i === 0 ? 'Main driver' : 'Driver ' + (i + 1)) + '</h3>' +
+    '<fieldset><legend>Gender</legend>' + radios('driverSex' + i, ['Male', 'Female']) + '</fieldset>' +
+    '<label>Age <input name="age' + i + '" inputmode="numeric"></label>' +
+    '<label>Age when licence obtained <input name="driverAge' + i + '" inputmode="numeric"></label>' +
+    '<fieldset><legend>Any claims in the last 5 years?</legend>' + radios('hasClaims' + i, ['Yes', 'No']) + '</fieldset>' +
+    '<div id="claimsSlot' + i + '"></div>' +
+    '</div>';
+}
+
+function addDriver() {
+  const i = document.querySelectorAll('.driver').length;
+  document.getElementById('drivers').insertAdjacentHTML('beforeend', driverBlock(i));
+  document.querySelectorAll('input[name="hasClaims' + i + '"]').forEach(r => {
+    r.onchange = () => {
+      document.getElementById('claimsSlot' + i).innerHTML = r.value === 'Yes'
+        ? '<label>How many? <select name="claimCount' + i + '"><option>1</option><option>2</option><option>3</option><option>4</option><option>5</option></select></label>'
+        : '';
+    };
+  });
+  return i;
+}
+
+function showAboutYou() {
+  app.innerHTML =
+    '<h2>About you</h2>' +
+    '<fieldset><legend>Are you an RACV member?</legend>' + radios('isMember0', ['Yes', 'No']) + '</fieldset>' +
+    '<div id="drivers"></div>' +
+    '<button id="addDriver">Add another driver</button>' +
+    '<div id="aboutErrors"></div>' +
+    '<button id="continue">Continue</button>';
+  addDriver();
+  document.getElementById('addDriver').onclick = addDriver;
+
+  // Coming back from the system error page keeps what was entered, like the real form
+  const drivers = state.form.drivers;
+  if (drivers) {
+    document.querySelector('input[name="isMember0"][value="' + (state.form.member ? 'Yes' : 'No') + '"]').checked = true;
+    drivers.forEach((d, i) => {
+      if (i > 0) addDriver();
+      document.querySelector('input[name="driverSex' + i + '"][value="' + d.sex + '"]').checked = true;
+      document.querySelector('input[name="age' + i + '"]').value = d.age;
+      document.querySelector('input[name="driverAge' + i + '"]').value = d.licenceAge;
+      const claimsRadio = document.querySelector('input[name="hasClaims' + i + '"][value="' + (d.claims > 0 ? 'Yes' : 'No') + '"]');
+      claimsRadio.checked = true;
+      claimsRadio.onchange();
+      if (d.claims > 0) document.querySelector('select[name="claimCount' + i + '"]').value = String(d.claims);
+    });
+  }
+
+  document.getElementById('continue').onclick = submitAboutYou;
+}
+
+function readDriver(i, errors) {
+  const label = i === 0 ? '' : ' for driver ' + (i + 1);
+  const age = parseInt(document.querySelector('input[name="age' + i + '"]').value, 10);
+  const licenceAge = parseInt(document.querySelector('input[name="driverAge' + i + '"]').value, 10);
+  const sex = checked('driverSex' + i);
+  const hasClaims = checked('hasClaims' + i);
+  if (!sex) errors.push('Please select a gender' + label);
+  if (!(age >= 17 && age <= 99)) errors.push('Please enter a valid age' + label);
+  if (!(licenceAge >= 16 && licenceAge <= age)) errors.push('Please enter the age you obtained your licence' + label);
+  if (!hasClaims) errors.push('Please tell us about previous claims' + label);
+  const claimsSelect = document.querySelector('select[name="claimCount' + i + '"]');
+  return {
+    age, licenceAge, sex,
+    claims: hasClaims === 'Yes' && claimsSelect ? parseInt(claimsSelect.value, 10) : 0
+  };
+}
+
+async function submitAboutYou() {
+  const member = checked('isMember0');
+  const errors = [];
+  if (!member) errors.push('Please tell us if you are an RACV member');
+  const drivers = [];
+  document.querySelectorAll('.driver').forEach((_, i) => drivers.push(readDriver(i, errors)));
+  if (errors.length > 0) {
+    document.getElementById('aboutErrors').innerHTML =
+      errors.map(e => '<p class="error">' + e + '</p>').join('');
+    return;
+  }
+
+  state.form.member = member === 'Yes';
+  state.form.drivers = drivers;
+  state.submissions++;
+
+  app.innerHTML = '<p>Calculating your quote…</p>';
+  const res = await fetch('/mock/quote', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ rego: state.form.rego, submission: state.submissions, member: state.form.member, drivers })
+  });
+  const quote = await res.json();
+  setTimeout(() => quote.error ? showSystemError() : showQuote(quote), 1500);
+}
+
+function showSystemError() {
+  app.innerHTML =
+    '<h2>System error</h2>' +
+    '<p>Sorry, we have encountered a technical problem. Please try again.</p>' +
+    '<button id="back">Back to form</button>';
+  document.getElementById('back').onclick = showAboutYou;
+}
+
+// ── Step 4: Quote ──
+function showQuote(quote, selected) {
+  const fmt = n => n.toLocaleString('en-AU', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const cover = quote.covers[selected || 0];
+  app.innerHTML =
+    '<h2>Your quote</h2>' +
+    '<h3>' + describe(state.vehicle) + '</h3>' +
+    '<div role="tablist">' +
+    quote.covers.map((c, i) => '<button role="tab" data-cover="' + i + '">' + c.label + '</button>').join('') +
+    '</div>' +
+    '<h3>' + cover.label + '</h3>' +
+    '<div class="price"><strong>$' + fmt(cover.annual) + '</strong> per year</div>' +
+    '<div class="price">or <strong>$' + fmt(cover.monthly) + '</strong> per month</div>' +
+    '<p>Basic excess $650</p>' +
+    (quote.driver_excesses || []).map(x => '<p>' + x.label + ' $' + fmt(x.amount) + '</p>').join('') +
+    '<p>Personal items cover up to $1,000</p>' +
+    '<button>Buy now</button>';
+  app.querySelectorAll('[data-cover]').forEach(b => {
+    b.onclick = () => showQuote(quote, Number(b.dataset.cover));
+  });
+}
+
+showRego();
+`;
+
+export function createRacvMockApp(vehicle: MockVehicle = DEFAULT_VEHICLE) {
+  const app = express();
+  app.use(express.json());
+
+  app.get("/s/motor-insurance", (_req, res) => {
+    res.type("html").send(pageHtml);
+  });
+
+  app.get("/s/motor-insurance.js", (_req, res) => {
+    res.type("application/javascript").send(pageScript);
+  });
+
+  // Aura endpoint — the scraper matches on "/aura?" and "ApexAction.execute" in the URL
+  app.post("/s/sfsites/aura", (req, res) => {
+    const action = String(req.query.action || "");
+    const rego = String(req.body?.rego || "").toUpperCase();
+    const found = req.body?.product === "MOTORCYCLE" ? MOTORCYCLE_VEHICLE : vehicle;
+
+    if (action === "regoLookup") {
+      if (rego === "NOTFND") {
+        res.json(auraError("No vehicle found for registration"));
+        return;
+      }
+      res.json(auraSuccess({ vehicles: [{ vehicle: found }] }));
+      return;
+    }
+
+    if (action === "huonInfo") {
+      if (rego === "HUON50") {
+        res.json(auraError("HUON service unavailable"));
+        return;
+      }
+      res.json(auraSuccess({ vehicles: [{ vehicle: found, huonId: "HUON-12345" }] }));
+      return;
+    }
+
+    res.status(400).json(auraError(`Unknown action ${action}`));
+  });
+
+  app.get("/mock/addresses", (req, res) => {
+    const q = String(req.query.q || "").trim().toUpperCase();
+    const firstWord = q.split(/\s+/)[0] || "";
+    if (q.length < 3) {
+      res.json([]);
+      return;
+    }
+    res.json(MOCK_ADDRESSES.filter((a) => a.startsWith(firstWord)));
+  });
+
+  app.post("/mock/quote", (req, res) => {
+    const { rego, submission, member, drivers } = req.body ?? {};
+    if (String(rego).toUpperCase() === "SYSERR" && submission === 1) {
+      res.json({ error: "system_error" });
+      return;
+    }
+    res.json(mockQuote(drivers, Boolean(member)));
+  });
+
+  return app;
+}
+
+export function startRacvMockSite(port = 0): Promise<{ server: Server; baseUrl: string }> {
+  return new Promise((resolve) => {
+    const server = createRacvMockApp().listen(port, () => {
+      const address = server.address();
+      const actualPort = typeof address === "object" && address ? address.port : port;
+      resolve({ server, baseUrl: `http://localhost:${actualPort}` });
+    });
+  });
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = parseInt(process.env.MOCK_PORT || "4010", 10);
+  const { baseUrl } = await startRacvMockSite(port);
+  console.log(`RACV mock site running at ${baseUrl}/s/motor-insurance?p=CAR (or p=MOTORCYCLE)`);
+  console.log(`Point the scraper at it with RACV_BASE_URL=${baseUrl}`);
+}
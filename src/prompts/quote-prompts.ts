@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { COVER_TYPES, CoverType } from "../utils/rating-data.js";
+import { PRODUCTS } from "../utils/products.js";
+import { getCoverLabel, getExcessAmounts } from "../utils/quote-calculator.js";
+import { getMotorQuoteSchema } from "../tools/get-motor-quote.js";
+
+/**
+ * Prompts for the common customer journeys, so every host gathers the same
+ * details and calls the tools in the same order instead of improvising. The
+ * get_motor_quote field list is generated from its input schema and the excess
+ * amounts from the pricing rules, so neither can drift from what the tools accept.
+ */
+
+// Fields the customer is never asked about
+const INTERNAL_FIELDS = new Set(["force_refresh"]);
+
+/**
+ * An optional enum argument with prefix completion. The SDK looks for the
+ * completer inside .optional() when deciding to advertise completions, but on
+ * the argument itself when answering, so both carry it.
+ */
+function optionalChoice<T extends readonly [string, ...string[]]>(values: T, description: string) {
+  const complete = (value: string | undefined) => values.filter((choice) => choice.startsWith(value ?? ""));
+  return completable(completable(z.enum(values), complete).optional().describe(description), complete);
+}
+
+const coverTypeArg = optionalChoice(COVER_TYPES, "comprehensive, third_party_fire_theft or third_party_property");
+
+function userMessage(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+function formatExcesses(coverType: CoverType): string {
+  return getExcessAmounts(coverType).map((amount) => `$${amount.toLocaleString()}`).join(", ");
+}
+
+/** One bullet per get_motor_quote field, grouped by whether the customer must be asked. */
+function describeQuoteFields(): { required: string[]; defaulted: string[]; optional: string[] } {
+  const groups = { required: [] as string[], defaulted: [] as string[], optional: [] as string[] };
+  for (const [name, field] of Object.entries(getMotorQuoteSchema)) {
+    if (INTERNAL_FIELDS.has(name)) continue;
+    const description = field.description ?? "";
+    if (field instanceof z.ZodDefault) {
+      groups.defaulted.push(`- ${name} (defaults to ${JSON.stringify(field._def.defaultValue())}): ${description}`);
+    } else if (field.isOptional()) {
+      groups.optional.push(`- ${name}: ${description}`);
+    } else {
+      groups.required.push(`- ${name}: ${description}`);
+    }
+  }
+  return groups;
+}
+
+function knownDetails(details: Record<string, string | undefined>): string[] {
+  const known = Object.entries(details).filter(([, value]) => value);
+  if (known.length === 0) return [];
+  return [``, `The customer has already given:`, ...known.map(([name, value]) => `- ${name}: ${value}`), `Confirm these rather than asking again.`];
+}
+
+function registerGetQuotePrompt(server: McpServer) {
+  server.registerPrompt(
+    "get_car_insurance_quote",
+    {
+      title: "Get a car insurance quote",
+      description: "Walk the customer through the details get_motor_quote needs, then quote and offer the next steps",
+      argsSchema: {
+        rego: z.string().optional().describe("Registration number, if the customer has already given it"),
+        address: z.string().optional().describe("Address where the car is kept, if already given"),
+        cover_type: coverTypeArg,
+      },
+    },
+    ({ rego, address, cover_type }) => {
+      const fields = describeQuoteFields();
+      const lines = [
+        `Help me get an RACV ${getCoverLabel(cover_type)} car insurance quote.`,
+        ``,
+        `Ask for the details below a few at a time, in plain language, and don't call get_motor_quote until you have every required one.`,
+        ``,
+        `Required:`,
+        ...fields.required,
+        ``,
+        `Ask about these too; if the customer doesn't say, the default is used:`,
+        ...fields.defaulted,
+        ``,
+        `Optional — ask for the make, model and year so an indicative estimate can be given if a live quote isn't possible:`,
+        ...fields.optional,
+        ...knownDetails({ rego, address, cover_type }),
+        ``,
+        `Then:`,
+        `1. If the customer isn't sure of the exact make or model, call search_vehicles and confirm the match with them.`,
+        `2. Call get_motor_quote. If it says the registration or address couldn't be used, show the customer the problem (and any "did you mean" suggestions) and ask again.`,
+        `3. Tell the customer whether the price is a live RACV quote or an indicative estimate (the result's \`source\`), and give the quote ID.`,
+        `4. Offer the next steps: compare_quote_scenarios to see other excesses or cover levels, explain_premium to see what drives the price, and start_full_quote with the quote ID to buy on racv.com.au.`,
+      ];
+      return userMessage(lines.join("\n"));
+    }
+  );
+}
+
+function registerExplainExcessPrompt(server: McpServer) {
+  server.registerPrompt(
+    "explain_my_excess",
+    {
+      title: "Explain my excess",
+      description: "Explain the standard, voluntary and driver excesses that would apply to the customer's policy, citing the PDS",
+      argsSchema: {
+        quote_id: z.string().optional().describe("Quote ID from an earlier quote, e.g. RACV-1A2B3C4D"),
+        cover_type: coverTypeArg,
+      },
+    },
+    ({ quote_id, cover_type }) => {
+      const cover = cover_type ?? "comprehensive";
+      const lines = [
+        `Explain my insurance excess: how much I'd pay towards a claim and why.`,
+        ``,
+        quote_id
+          ? `1. Call get_saved_quote with quote_id ${quote_id} to see the excess on my quote, including any age or inexperienced driver excess.`
+          : `1. Ask whether I have a quote ID. If I do, call get_saved_quote; if not, ask the driver's age and how long they've held their licence, since younger and newer drivers pay more.`,
+        `2. Call get_coverage_details with coverage_area excess_options and cover_type ${cover} for the PDS wording.`,
+        `3. For anything specific I ask (e.g. "do I pay an excess for a windscreen?"), call search_policy_wording and quote the section it returns.`,
+        ``,
+        `${getCoverLabel(cover)} cover offers excesses of ${formatExcesses(cover)}. A higher excess lowers the premium.`,
+        `Explain that driver excesses are added on top of the standard excess, give a worked example with my numbers, and cite PDS section numbers.`,
+        `Keep it general: this is not personal financial advice.`,
+      ];
+      return userMessage(lines.join("\n"));
+    }
+  );
+}
+
+function registerCompareExcessPrompt(server: McpServer) {
+  server.registerPrompt(
+    "compare_excess_options",
+    {
+      title: "Compare excess options",
+      description: "Price every excess offered for the customer's cover side by side and explain the trade-off",
+      argsSchema: {
+        quote_id: z.string().optional().describe("Quote ID of an estimate to start from"),
+        cover_type: coverTypeArg,
+      },
+    },
+    ({ quote_id, cover_type }) => {
+      const cover = cover_type ?? "comprehensive";
+      const amounts = getExcessAmounts(cover);
+      const lines = [
+        `Compare the excess options on my car insurance so I can see what each one saves.`,
+        ``,
+        quote_id
+          ? `1. Call get_saved_quote with quote_id ${quote_id} to get the car, driver and postcode details.`
+          : `1. Collect what estimate_motor_quote needs: vehicle make, model and year, postcode, driver age, licence age, at-fault claims in the last 5 years, and where the car is parked overnight.`,
+        `2. Call compare_quote_scenarios with those details, cover_type ${cover}, excess ${amounts[0]} for the base, and one scenario per other excess: ${amounts
+          .slice(1)
+          .map((amount) => `{ "excess": ${amount} }`)
+          .join(", ")}.`,
+        `3. Show a table of excess, annual premium and saving against the $${amounts[0].toLocaleString()} excess.`,
+        ``,
+        `Point out how many years of premium savings it takes to cover the extra excess on one claim, and that age or inexperienced driver excesses still apply on top. Don't recommend an option; lay out the trade-off.`,
+      ];
+      return userMessage(lines.join("\n"));
+    }
+  );
+}
+
+function registerNotCoveredPrompt(server: McpServer) {
+  server.registerPrompt(
+    "whats_not_covered",
+    {
+      title: "What's not covered",
+      description: "Summarise the key exclusions for a product and cover level, and check a specific situation against the PDS",
+      argsSchema: {
+        product: optionalChoice(PRODUCTS, "car, motorcycle or caravan"),
+        cover_type: coverTypeArg,
+        situation: z.string().optional().describe("Something the customer wants to check, e.g. 'hail damage while parked at work'"),
+      },
+    },
+    ({ product, cover_type, situation }) => {
+      const insured = product ?? "car";
+      const cover = cover_type ?? "comprehensive";
+      const lines = [
+        `What isn't covered by RACV ${insured} insurance${insured === "car" ? ` (${getCoverLabel(cover)})` : ""}?`,
+        ``,
+        `1. Call get_coverage_details with coverage_area exclusions, product ${insured}${insured === "car" ? ` and cover_type ${cover}` : ""}.`,
+        situation
+          ? `2. Call search_policy_wording with query "${situation}" and product ${insured}${insured === "car" ? ` and cover_type ${cover}` : ""}. Read both the inclusions and exclusions it returns before saying whether the situation is covered.`
+          : `2. If I describe a particular situation, call search_policy_wording for it and read both the inclusions and exclusions it returns before answering.`,
+        ``,
+        `Summarise the exclusions in plain language, grouped by theme, with the PDS section for each. If the answer depends on details I haven't given, say what they are.`,
+        `Finish by pointing me to the full PDS at racv.com.au/pds. This is general information, not personal advice.`,
+      ];
+      return userMessage(lines.join("\n"));
+    }
+  );
+}
+
+export function registerQuotePrompts(server: McpServer) {
+  registerGetQuotePrompt(server);
+  registerExplainExcessPrompt(server);
+  registerCompareExcessPrompt(server);
+  registerNotCoveredPrompt(server);
+}
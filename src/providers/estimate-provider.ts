@@ -0,0 +1,60 @@
+import { calculateQuote, isVictorianPostcode, QuoteInput } from "../utils/quote-calculator.js";
+import { resolveAddress } from "../utils/address-parser.js";
+import { PRODUCT_INFO } from "../utils/products.js";
+import type { MotorQuoteRequest, ProviderOutcome, QuoteProvider } from "./quote-provider.js";
+
+function resolvePostcode(request: MotorQuoteRequest): string | undefined {
+  if (request.postcode) return request.postcode;
+  if (!request.address) return undefined;
+  // The address may name a suburb without a postcode; the gazetteer can fill it in
+  const resolution = resolveAddress(request.address);
+  return resolution.ok ? resolution.address.postcode : resolution.parsed.postcode;
+}
+
+export class EstimateProvider implements QuoteProvider {
+  readonly name = "rating-rules";
+  readonly source = "estimate" as const;
+
+  async unsupportedReason(request: MotorQuoteRequest): Promise<string | null> {
+    if (request.product && request.product !== "car") {
+      const info = PRODUCT_INFO[request.product];
+      return `The car rating rules don't cover ${info.label.toLowerCase()} insurance; use ${info.estimate_tool} for an estimate`;
+    }
+    const missing: string[] = [];
+    if (!request.vehicle_make) missing.push("vehicle make");
+    if (!request.vehicle_model) missing.push("vehicle model");
+    if (!request.vehicle_year) missing.push("vehicle year");
+    const postcode = resolvePostcode(request);
+    if (!postcode) missing.push("postcode");
+
+    if (missing.length > 0) {
+      return `An estimate needs the ${missing.join(", ")}`;
+    }
+    if (!isVictorianPostcode(postcode!)) {
+      return `Postcode ${postcode} is not a Victorian postcode`;
+    }
+    return null;
+  }
+
+  async quote(request: MotorQuoteRequest): Promise<ProviderOutcome> {
+    const input: QuoteInput = {
+      vehicle_make: request.vehicle_make!,
+      vehicle_model: request.vehicle_model!,
+      vehicle_year: request.vehicle_year!,
+      postcode: resolvePostcode(request)!,
+      driver_age: request.driver_age,
+      licence_age: request.licence_age,
+      claims_last_5_years: request.claims_last_5_years,
+      parking_type: request.parking_type ?? "driveway",
+      additional_drivers: request.additional_drivers?.map(({ driver_age, licence_age, claims_last_5_years }) => ({
+        driver_age,
+        licence_age,
+        claims_last_5_years,
+      })),
+      is_racv_member: request.is_racv_member,
+      cover_type: request.cover_type,
+    };
+
+    return { ok: true, source: "estimate", input, result: calculateQuote(input) };
+  }
+}
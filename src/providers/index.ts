@@ -0,0 +1,36 @@
+import { EstimateProvider } from "./estimate-provider.js";
+import { LiveScrapeProvider } from "./live-scrape-provider.js";
+import type { QuoteProvider } from "./quote-provider.js";
+
+export * from "./quote-provider.js";
+
+const providerFactories: Record<string, () => QuoteProvider> = {
+  live: () => new LiveScrapeProvider(),
+  estimate: () => new EstimateProvider(),
+};
+
+/**
+ * Build the provider chain from QUOTE_PROVIDERS (comma separated, tried in order).
+ * Defaults to a live quote with a fallback to the rating-rules estimate;
+ * RACV_LIVE_QUOTES=false drops the live provider.
+ */
+export function getQuoteProviders(): QuoteProvider[] {
+  const names = (process.env.QUOTE_PROVIDERS || "live,estimate")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const liveDisabled = process.env.RACV_LIVE_QUOTES === "false";
+
+  const providers: QuoteProvider[] = [];
+  for (const name of names) {
+    if (name === "live" && liveDisabled) continue;
+    const factory = providerFactories[name];
+    if (!factory) {
+      console.error(`[Quote] Unknown quote provider "${name}" in QUOTE_PROVIDERS, skipping`);
+      continue;
+    }
+    providers.push(factory());
+  }
+  return providers;
+}
@@ -0,0 +1,95 @@
+import type { RacvQuoteInput } from "../utils/racv-scraper.js";
+import { getLiveQuoteCache } from "../utils/quote-cache.js";
+import { parseAddress } from "../utils/address-parser.js";
+import { checkRego } from "../utils/rego.js";
+import type { MotorQuoteRequest, ProviderOutcome, QuoteContext, QuoteProvider } from "./quote-provider.js";
+
+/**
+ * Pull year/make/model out of an RACV vehicle description such as
+ * "2019 TOYOTA COROLLA ASCENT SPORT" so the estimator can take over.
+ */
+export function parseVehicleDescription(
+  description: string
+): Pick<MotorQuoteRequest, "vehicle_year" | "vehicle_make" | "vehicle_model"> | null {
+  const match = description.match(/(\d{4})\s+([A-Za-z-]+)\s+([A-Za-z0-9-]+)/);
+  if (!match) return null;
+  return {
+    vehicle_year: parseInt(match[1], 10),
+    vehicle_make: match[2],
+    vehicle_model: match[3],
+  };
+}
+
+export class LiveScrapeProvider implements QuoteProvider {
+  readonly name = "racv-live";
+  readonly source = "live" as const;
+
+  async unsupportedReason(request: MotorQuoteRequest): Promise<string | null> {
+    if (!request.rego || !request.address) {
+      return "A live quote needs the vehicle registration and street address";
+    }
+    const rego = checkRego(request.rego);
+    if (!rego.ok) return rego.error;
+    // Trailer plates are only right for caravan & trailer quotes
+    if (rego.plate_type === "trailer" && request.product !== "caravan") {
+      return "A live car quote needs the car's registration, not a trailer plate";
+    }
+    if (!parseAddress(request.address).street) {
+      return "A live quote needs a street address, not just a suburb or postcode";
+    }
+    if (request.driver_gender === undefined || request.licence_age === undefined) {
+      return "A live quote needs the driver's gender and licence age";
+    }
+    try {
+      await import("playwright");
+    } catch {
+      return "Playwright is not installed on this server";
+    }
+    return null;
+  }
+
+  async quote(request: MotorQuoteRequest, context: QuoteContext = {}): Promise<ProviderOutcome> {
+    const { scrapeRacvQuote } = await import("../utils/racv-scraper.js");
+
+    const { suburb, postcode } = parseAddress(request.address!);
+    const input: RacvQuoteInput = {
+      rego: checkRego(request.rego!).rego,
+      address: request.address!,
+      suburb,
+      postcode: postcode ?? request.postcode,
+      driver_age: request.driver_age,
+      driver_gender: request.driver_gender!,
+      licence_age: request.licence_age!,
+      claims_last_5_years: request.claims_last_5_years,
+      is_racv_member: request.is_racv_member,
+      additional_drivers: request.additional_drivers,
+      cover_type: request.cover_type,
+      product: request.product,
+    };
+
+    const report = (step: string, message: string) => context.onProgress?.({ provider: this.name, step, message });
+
+    const { result, cache } = await getLiveQuoteCache().getOrFetch(
+      input,
+      () => scrapeRacvQuote(input, { onProgress: (event) => report(event.step, event.message) }),
+      {
+        forceRefresh: request.force_refresh,
+        onShared: () => report("queued", "An identical quote is already running, waiting for its result"),
+      }
+    );
+    if (result.success) {
+      return { ok: true, source: "live", input, result, cache };
+    }
+
+    const vehicle = result.vehicle_description
+      ? parseVehicleDescription(result.vehicle_description)
+      : null;
+
+    return {
+      ok: false,
+      error: result.error || "The RACV website did not return a premium",
+      hints: vehicle ?? undefined,
+      result,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import type { QuoteInput, QuoteResult } from "../utils/quote-calculator.js";
+import type { RacvDriver, RacvQuoteInput, RacvQuoteResult } from "../utils/racv-scraper.js";
+import type { QuoteSource } from "../utils/quote-store.js";
+import type { CoverType } from "../utils/rating-data.js";
+import type { QuoteCacheInfo } from "../utils/quote-cache.js";
+import type { Product } from "../utils/products.js";
+
+/**
+ * Everything a caller may know about a motor quote request. Each provider uses the
+ * subset it needs: the live scraper wants rego + address, the estimator wants
+ * make/model/year + postcode.
+ */
+export interface MotorQuoteRequest {
+  rego?: string;
+  address?: string;
+  postcode?: string;
+  vehicle_make?: string;
+  vehicle_model?: string;
+  vehicle_year?: number;
+  driver_age: number;
+  driver_gender?: "male" | "female";
+  licence_age?: number;
+  claims_last_5_years: number;
+  is_racv_member?: boolean;
+  parking_type?: QuoteInput["parking_type"];
+  additional_drivers?: RacvDriver[];
+  cover_type?: CoverType;
+  /** Defaults to car. Only the live quote handles motorcycles and caravans; each has its own estimate tool. */
+  product?: Product;
+  /** Skip any cached live result and re-run the quote. */
+  force_refresh?: boolean;
+}
+
+export type ProviderQuote =
+  | { source: "live"; input: RacvQuoteInput; result: RacvQuoteResult; cache?: QuoteCacheInfo }
+  | { source: "estimate"; input: QuoteInput; result: QuoteResult };
+
+export type ProviderOutcome =
+  | ({ ok: true } & ProviderQuote)
+  | {
+      ok: false;
+      error: string;
+      // Details learned along the way (e.g. the vehicle found by a rego lookup)
+      // that later providers in the chain can use
+      hints?: Partial<MotorQuoteRequest>;
+      result?: RacvQuoteResult;
+    };
+
+/** A step a provider reports while it works, e.g. "rego_lookup" from the live scraper. */
+export interface QuoteProgress {
+  provider: string;
+  step: string;
+  message: string;
+}
+
+export interface QuoteContext {
+  onProgress?: (progress: QuoteProgress) => void;
+}
+
+export interface QuoteProvider {
+  readonly name: string;
+  readonly source: QuoteSource;
+  /** Returns why this provider cannot handle the request, or null if it can. */
+  unsupportedReason(request: MotorQuoteRequest): Promise<string | null>;
+  quote(request: MotorQuoteRequest, context?: QuoteContext): Promise<ProviderOutcome>;
+}
+
+export interface ProviderAttempt {
+  provider: string;
+  error: string;
+}
+
+export type ChainResult =
+  | ({ ok: true; provider: string; attempts: ProviderAttempt[] } & ProviderQuote)
+  | { ok: false; attempts: ProviderAttempt[]; result?: RacvQuoteResult };
+
+/**
+ * Try each provider in order until one produces a quote. Hints from failed
+ * providers are merged into the request (without overriding caller values).
+ */
+export async function runProviderChain(
+  providers: QuoteProvider[],
+  request: MotorQuoteRequest,
+  context: QuoteContext = {}
+): Promise<ChainResult> {
+  const attempts: ProviderAttempt[] = [];
+  let current = { ...request };
+  let lastLiveResult: RacvQuoteResult | undefined;
+
+  for (const provider of providers) {
+    const unsupported = await provider.unsupportedReason(current);
+    if (unsupported) {
+      attempts.push({ provider: provider.name, error: unsupported });
+      continue;
+    }
+
+    let outcome: ProviderOutcome;
+    try {
+      outcome = await provider.quote(current, context);
+    } catch (error) {
+      outcome = { ok: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    if (outcome.ok) {
+      const { ok: _ok, ...quote } = outcome;
+      return { ok: true, provider: provider.name, attempts, ...quote };
+    }
+
+    console.error(`[Quote] Provider ${provider.name} failed: ${outcome.error}`);
+    // First line only — browser errors can carry multi-line banners
+    attempts.push({ provider: provider.name, error: outcome.error.split("\n")[0] });
+    if (outcome.result) lastLiveResult = outcome.result;
+    if (outcome.hints) current = fillMissing(current, outcome.hints);
+    context.onProgress?.({
+      provider: provider.name,
+      step: "provider_failed",
+      message: `${provider.name} could not quote: ${outcome.error.split("\n")[0]}`,
+    });
+  }
+
+  return { ok: false, attempts, result: lastLiveResult };
+}
+
+function fillMissing(request: MotorQuoteRequest, hints: Partial<MotorQuoteRequest>): MotorQuoteRequest {
+  const missing: Partial<MotorQuoteRequest> = Object.fromEntries(
+    Object.entries(hints).filter(([key]) => request[key as keyof MotorQuoteRequest] === undefined)
+  );
+  return { ...request, ...missing };
+}
@@ -0,0 +1,227 @@
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { COVERAGE_AREAS, CoverageArea, getRatingData, onRatingDataReload } from "../utils/rating-data.js";
+import { getCoverLabel, getPostcodeRiskZone, isVictorianPostcode } from "../utils/quote-calculator.js";
+import { coverageClauses, getPolicyWording } from "../utils/policy-wording.js";
+
+/**
+ * Read-only views of the rating data and policy wording, so a host can attach
+ * coverage or pricing context without a tool call:
+ *   racv://coverage/{area}      — car PDS clauses for one coverage area, per cover type
+ *   racv://postcodes/{postcode} — risk zone, multipliers and gazetteer suburbs
+ *   racv://vehicles/{make}      — catalogue models with rating category and new value
+ *   racv://pricing-rules        — the car pricing rules in use
+ * Subscribers are told when a rating data reload changes them.
+ */
+
+const DATA_URI_PREFIX = "racv://";
+const PRICING_RULES_URI = "racv://pricing-rules";
+
+function json(uri: URL, data: unknown): ReadResourceResult {
+  return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }] };
+}
+
+function variable(value: string | string[]): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function startsWith(values: string[], prefix: string): string[] {
+  return values.filter((value) => value.toLowerCase().startsWith(prefix.toLowerCase()));
+}
+
+function gazetteerPostcodes(): string[] {
+  return [...new Set(getRatingData().suburbs.suburbs.map((entry) => entry.postcode))].sort();
+}
+
+function coverageMarkdown(area: CoverageArea): string {
+  const pds = getPolicyWording("car");
+  const lines = [`# ${pds.areas[area]} — RACV Car Insurance`, ``, `Source: ${pds.document} (version ${pds.version}), ${pds.url}`];
+  for (const coverType of pds.cover_types) {
+    lines.push(``, `## ${getCoverLabel(coverType)}`, ``);
+    for (const clause of coverageClauses("car", coverType, area)) {
+      lines.push(`- **${clause.heading}** — ${clause.text} (PDS ${clause.section})`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function registerCoverageResources(server: McpServer) {
+  server.registerResource(
+    "coverage",
+    new ResourceTemplate("racv://coverage/{area}", {
+      list: () => {
+        const pds = getPolicyWording("car");
+        return {
+          resources: COVERAGE_AREAS.map((area) => ({
+            uri: `racv://coverage/${area}`,
+            name: `coverage-${area}`,
+            title: `Car insurance — ${pds.areas[area]}`,
+            mimeType: "text/markdown",
+          })),
+        };
+      },
+      complete: { area: (value) => startsWith([...COVERAGE_AREAS], value) },
+    }),
+    {
+      title: "RACV Car Insurance Coverage",
+      description: "Car insurance PDS clauses for one coverage area (standard_inclusions, optional_extras, exclusions, excess_options or claims_process), grouped by cover type with section citations",
+      mimeType: "text/markdown",
+    },
+    (uri, variables) => {
+      const area = variable(variables.area);
+      if (!(COVERAGE_AREAS as readonly string[]).includes(area)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown coverage area "${area}". Use one of ${COVERAGE_AREAS.join(", ")}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: "text/markdown", text: coverageMarkdown(area as CoverageArea) }],
+      };
+    }
+  );
+}
+
+function registerPostcodeResources(server: McpServer) {
+  server.registerResource(
+    "postcode",
+    new ResourceTemplate("racv://postcodes/{postcode}", {
+      list: () => {
+        const { suburbs } = getRatingData().suburbs;
+        return {
+          resources: gazetteerPostcodes().map((postcode) => ({
+            uri: `racv://postcodes/${postcode}`,
+            name: `postcode-${postcode}`,
+            title: `${postcode} ${suburbs.filter((entry) => entry.postcode === postcode).map((entry) => entry.suburb).join(", ")}`,
+            mimeType: "application/json",
+          })),
+        };
+      },
+      complete: { postcode: (value) => startsWith(gazetteerPostcodes(), value) },
+    }),
+    {
+      title: "Victorian Postcode Rating",
+      description: "Risk zone of a Victorian postcode, the premium multiplier each product applies to it, and the suburbs it covers. Any postcode starting with 3 can be read, not just the listed ones",
+      mimeType: "application/json",
+    },
+    (uri, variables) => {
+      const postcode = variable(variables.postcode);
+      if (!isVictorianPostcode(postcode)) {
+        throw new McpError(ErrorCode.InvalidParams, `${postcode} is not a Victorian postcode (four digits starting with 3)`);
+      }
+      const data = getRatingData();
+      const zone = getPostcodeRiskZone(postcode);
+      return json(uri, {
+        postcode,
+        risk_zone: zone,
+        risk_zone_label: data.postcodes.risk_zones[zone].label,
+        multipliers: {
+          car: data.pricingRules.postcode_risk_multipliers[zone],
+          motorcycle: data.motorcycleRules.postcode_risk_multipliers[zone],
+          caravan: data.caravanRules.postcode_risk_multipliers[zone],
+        },
+        suburbs: data.suburbs.suburbs.filter((entry) => entry.postcode === postcode).map((entry) => entry.suburb),
+      });
+    }
+  );
+}
+
+function registerVehicleResources(server: McpServer) {
+  server.registerResource(
+    "vehicle-make",
+    new ResourceTemplate("racv://vehicles/{make}", {
+      list: () => ({
+        resources: Object.entries(getRatingData().vehicles).map(([make, models]) => ({
+          uri: `racv://vehicles/${encodeURIComponent(make)}`,
+          name: `vehicles-${make.toLowerCase()}`,
+          title: `${make} (${Object.keys(models).length} models)`,
+          mimeType: "application/json",
+        })),
+      }),
+      complete: { make: (value) => startsWith(Object.keys(getRatingData().vehicles), value) },
+    }),
+    {
+      title: "RACV Vehicle Catalogue",
+      description: "Car models of one make in RACV's rating catalogue, with each model's rating category and new value",
+      mimeType: "application/json",
+    },
+    (uri, variables) => {
+      const { vehicles, pricingRules } = getRatingData();
+      const requested = variable(variables.make);
+      const make = Object.keys(vehicles).find((name) => name.toLowerCase() === requested.toLowerCase());
+      if (!make) {
+        throw new McpError(ErrorCode.InvalidParams, `"${requested}" is not in the vehicle catalogue. Known makes: ${Object.keys(vehicles).join(", ")}`);
+      }
+      return json(uri, {
+        make,
+        pricing_version: pricingRules.version,
+        models: Object.entries(vehicles[make]).map(([model, info]) => ({ model, ...info })),
+      });
+    }
+  );
+}
+
+function registerPricingRulesResource(server: McpServer) {
+  server.registerResource(
+    "pricing-rules",
+    PRICING_RULES_URI,
+    {
+      title: "RACV Car Pricing Rules",
+      description: "The car insurance rating tables behind estimate_motor_quote: base rates and excesses per cover type, and the age, claims, postcode, parking and vehicle-age multipliers",
+      mimeType: "application/json",
+    },
+    (uri) => json(uri, getRatingData().pricingRules)
+  );
+}
+
+// Every connected server and the data resources its client subscribed to. One reload
+// listener fans out to them all, rather than one listener per HTTP session
+const liveServers = new Map<McpServer, Set<string>>();
+
+onRatingDataReload(() => {
+  for (const [server, subscribed] of liveServers) {
+    if (!server.isConnected()) continue;
+    for (const uri of subscribed) {
+      if (!uri.startsWith(DATA_URI_PREFIX)) continue;
+      server.server.sendResourceUpdated({ uri }).catch((error) => console.error("[Resources] Failed to send update:", error));
+    }
+    server.sendResourceListChanged();
+  }
+});
+
+/**
+ * Track resources/subscribe requests and, whenever the rating data reloads, send
+ * resources/updated for each subscribed data resource plus a list-changed
+ * notification (a new make or postcode changes the lists).
+ */
+function notifyOnReload(server: McpServer) {
+  const subscribed = new Set<string>();
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribed.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(request.params.uri);
+    return {};
+  });
+  liveServers.set(server, subscribed);
+
+  // One server per HTTP session: forget it once its transport closes (DELETE, idle expiry or shutdown)
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    liveServers.delete(server);
+    previousOnClose?.();
+  };
+}
+
+export function registerDataResources(server: McpServer) {
+  registerCoverageResources(server);
+  registerPostcodeResources(server);
+  registerVehicleResources(server);
+  registerPricingRulesResource(server);
+  notifyOnReload(server);
+}
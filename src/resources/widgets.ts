@@ -0,0 +1,68 @@
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+import { dirname, join } from "path";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// public/ sits at the repo root, two levels up from both src/resources and dist/resources
+const publicDir = join(__dirname, "../../public");
+
+// MIME type hosts use to recognise an MCP Apps HTML view
+const WIDGET_MIME_TYPE = "text/html;profile=mcp-app";
+
+export const QUOTE_WIDGET_URI = "ui://racv/quote-result.html";
+export const COVERAGE_WIDGET_URI = "ui://racv/coverage-info.html";
+
+/**
+ * Tool `_meta` that links a tool's results to a widget. `ui.resourceUri` is the
+ * MCP Apps key; `openai/outputTemplate` is the equivalent for the ChatGPT Apps SDK.
+ */
+export function widgetMeta(uri: string): Record<string, unknown> {
+  return {
+    ui: { resourceUri: uri },
+    "openai/outputTemplate": uri,
+  };
+}
+
+const widgets = [
+  {
+    name: "quote-result-widget",
+    uri: QUOTE_WIDGET_URI,
+    file: "quote-result.html",
+    title: "RACV Quote Result",
+    description: "RACV-branded motor insurance quote card with premium, excess options and coverage highlights",
+  },
+  {
+    name: "coverage-info-widget",
+    uri: COVERAGE_WIDGET_URI,
+    file: "coverage-info.html",
+    title: "RACV Coverage Details",
+    description: "Tabbed view of RACV comprehensive car insurance inclusions, extras, exclusions, excesses and claims",
+  },
+];
+
+export function registerWidgetResources(server: McpServer) {
+  for (const widget of widgets) {
+    server.registerResource(
+      widget.name,
+      widget.uri,
+      {
+        title: widget.title,
+        description: widget.description,
+        mimeType: WIDGET_MIME_TYPE,
+      },
+      async (uri) => ({
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: WIDGET_MIME_TYPE,
+            // Read on every request so widget edits show up without a restart
+            text: readFileSync(join(publicDir, widget.file), "utf-8"),
+          },
+        ],
+      })
+    );
+  }
+}
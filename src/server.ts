@@ -5,8 +5,29 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { registerGetMotorQuote } from "./tools/get-motor-quote.js";
+import { registerEstimateMotorQuote } from "./tools/estimate-motor-quote.js";
+import { registerEstimateMotorcycleQuote } from "./tools/estimate-motorcycle-quote.js";
+import { registerEstimateCaravanQuote } from "./tools/estimate-caravan-quote.js";
 import { registerGetCoverage } from "./tools/get-coverage.js";
 import { registerStartFullQuote } from "./tools/start-full-quote.js";
+import { registerGetSavedQuote } from "./tools/get-saved-quote.js";
+import { registerCompareQuoteScenarios } from "./tools/compare-quote-scenarios.js";
+import { registerExplainPremium } from "./tools/explain-premium.js";
+import { registerSearchVehicles } from "./tools/search-vehicles.js";
+import { registerSearchPolicyWording } from "./tools/search-policy-wording.js";
+import { registerUpdateQuoteDraft } from "./tools/update-quote-draft.js";
+import { registerGetQuoteDraft } from "./tools/get-quote-draft.js";
+import { registerSubmitQuoteDraft } from "./tools/submit-quote-draft.js";
+import { registerWidgetResources } from "./resources/widgets.js";
+import { registerDataResources } from "./resources/data-resources.js";
+import { registerQuotePrompts } from "./prompts/quote-prompts.js";
+import { getRatingData, watchRatingData } from "./utils/rating-data.js";
+import { getQuoteDraftStore } from "./utils/quote-drafts.js";
+import { getQuoteStore } from "./utils/quote-store.js";
+import { FileEventStore, getEventStore } from "./utils/event-store.js";
+import { getSessionStore } from "./utils/session-store.js";
+import { replayInitialize } from "./utils/session-restore.js";
+import { envInt } from "./utils/env.js";
 
 const PORT = parseInt(process.env.PORT || "3000", 10);
 
@@ -24,8 +45,22 @@ function createMcpServer(): McpServer {
   );
 
   registerGetMotorQuote(server);
+  registerEstimateMotorQuote(server);
+  registerEstimateMotorcycleQuote(server);
+  registerEstimateCaravanQuote(server);
   registerGetCoverage(server);
   registerStartFullQuote(server);
+  registerGetSavedQuote(server);
+  registerCompareQuoteScenarios(server);
+  registerExplainPremium(server);
+  registerSearchVehicles(server);
+  registerSearchPolicyWording(server);
+  registerUpdateQuoteDraft(server);
+  registerGetQuoteDraft(server);
+  registerSubmitQuoteDraft(server);
+  registerWidgetResources(server);
+  registerDataResources(server);
+  registerQuotePrompts(server);
 
   return server;
 }
@@ -65,6 +100,7 @@ app.get("/", (_req, res) => {
     name: "racv-insurance-app",
     version: "1.0.0",
     status: "healthy",
+    pricing_version: getRatingData().pricingRules.version,
     endpoints: {
       mcp: "/mcp",
       widgets: "/widget/",
@@ -75,88 +111,197 @@ app.get("/", (_req, res) => {
 
 // Session storage
 const transports: Record<string, StreamableHTTPServerTransport> = {};
+// Restores in progress, so concurrent requests for the same session share one
+const restoring: Record<string, Promise<StreamableHTTPServerTransport | undefined>> = {};
+
+// When each live session last had a request
+const lastActive: Record<string, number> = {};
+
+// Expired sessions, quotes and drafts are purged this often; quotes and drafts hold the customer's rego and address
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+// last_seen_at is only rewritten when older than this, not on every request
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+// Live sessions idle this long are closed to free their transport and MCP server.
+// They stay in the session store, so the client's next request restores them. 0 keeps them open
+const SESSION_IDLE_MS = envInt("SESSION_IDLE_MINUTES", 30) * 60 * 1000;
+
+/** A transport and MCP server for one session. The ID is fixed up front so a restored session keeps it. */
+async function openSession(sessionId: string): Promise<StreamableHTTPServerTransport> {
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => sessionId,
+    eventStore: getEventStore()?.forSession(sessionId),
+    onsessioninitialized: (sid) => {
+      transports[sid] = transport;
+      lastActive[sid] = Date.now();
+    },
+    // Only the client's DELETE ends a session for good; a shutdown leaves it to be restored
+    onsessionclosed: async (sid) => {
+      await Promise.all([
+        getSessionStore().delete(sid),
+        getQuoteDraftStore().delete(sid),
+        getEventStore()?.deleteSession(sid),
+      ]).catch((error) =>
+        log("error", "Failed to forget session", { sessionId: sid, error: String(error) })
+      );
+    },
+  });
+
+  transport.onclose = () => {
+    const sid = transport.sessionId;
+    if (sid && transports[sid]) {
+      delete transports[sid];
+      delete lastActive[sid];
+      log("info", "Session closed", { sessionId: sid });
+    }
+  };
+
+  const server = createMcpServer();
+  await server.connect(transport);
+  return transport;
+}
+
+/**
+ * Bring back a session from before a restart by replaying the client's initialize
+ * handshake into a fresh transport, so the client carries on with the same
+ * Mcp-Session-Id and the server knows its capabilities again.
+ */
+async function restoreSession(sessionId: string): Promise<StreamableHTTPServerTransport | undefined> {
+  const session = await getSessionStore().get(sessionId);
+  if (!session) return undefined;
+
+  const transport = await openSession(sessionId);
+  try {
+    await replayInitialize(transport, session);
+  } catch (error) {
+    log("error", "Session could not be restored", { sessionId, error: String(error) });
+    await transport.close();
+    return undefined;
+  }
+
+  log("info", "Session restored", { sessionId, client: session.client_info.name });
+  return transport;
+}
+
+async function findSession(sessionId: string): Promise<StreamableHTTPServerTransport | undefined> {
+  if (transports[sessionId]) {
+    lastActive[sessionId] = Date.now();
+    return transports[sessionId];
+  }
+  restoring[sessionId] ??= restoreSession(sessionId).finally(() => delete restoring[sessionId]);
+  return restoring[sessionId];
+}
+
+async function touchSession(sessionId: string): Promise<void> {
+  const store = getSessionStore();
+  const session = await store.get(sessionId);
+  if (session && Date.now() - Date.parse(session.last_seen_at) > SESSION_TOUCH_INTERVAL_MS) {
+    await store.save({ ...session, last_seen_at: new Date().toISOString() });
+  }
+}
+
+async function closeIdleSessions(): Promise<void> {
+  const cutoff = Date.now() - SESSION_IDLE_MS;
+  for (const [sid, transport] of Object.entries(transports)) {
+    if ((lastActive[sid] ?? 0) >= cutoff) continue;
+    log("info", "Closing idle session", { sessionId: sid });
+    await transport.close().catch((error) => log("error", "Failed to close idle session", { sessionId: sid, error: String(error) }));
+  }
+}
+
+// Express 4 doesn't catch rejections from async handlers, so each one catches its own
+function sendInternalError(res: express.Response, method: string, error: unknown) {
+  log("error", `Error handling ${method} /mcp`, { error: String(error) });
+  if (!res.headersSent) {
+    res.status(500).json({
+      jsonrpc: "2.0",
+      error: { code: -32603, message: "Internal server error" },
+      id: null,
+    });
+  }
+}
+
+function sendSessionError(res: express.Response, sessionId: string | undefined) {
+  // 404 tells the client its session is gone and it should initialize a new one
+  res.status(sessionId ? 404 : 400).json({
+    jsonrpc: "2.0",
+    error: {
+      code: -32000,
+      message: sessionId
+        ? "Session not found. Send an initialize request to start a new session."
+        : "Bad Request: No valid session ID provided. Send an initialize request first.",
+    },
+    id: null,
+  });
+}
 
 // POST /mcp — primary communication channel
 app.post("/mcp", async (req, res) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
 
   try {
-    let transport: StreamableHTTPServerTransport;
-
-    if (sessionId && transports[sessionId]) {
-      transport = transports[sessionId];
-    } else if (!sessionId && isInitializeRequest(req.body)) {
-      transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => randomUUID(),
-        onsessioninitialized: (sid) => {
-          transports[sid] = transport;
-          log("info", "Session initialized", { sessionId: sid });
-        },
-      });
-
-      transport.onclose = () => {
-        const sid = transport.sessionId;
-        if (sid && transports[sid]) {
-          delete transports[sid];
-          log("info", "Session closed", { sessionId: sid });
-        }
-      };
-
-      const server = createMcpServer();
-      await server.connect(transport);
+    if (!sessionId && isInitializeRequest(req.body)) {
+      const transport = await openSession(randomUUID());
       await transport.handleRequest(req, res, req.body);
+
+      const sid = transport.sessionId;
+      if (sid && transports[sid]) {
+        const now = new Date().toISOString();
+        const { protocolVersion, capabilities, clientInfo } = req.body.params;
+        await getSessionStore().save({
+          session_id: sid,
+          protocol_version: protocolVersion,
+          capabilities,
+          client_info: clientInfo,
+          created_at: now,
+          last_seen_at: now,
+        });
+        log("info", "Session initialized", { sessionId: sid });
+      }
       return;
-    } else {
-      res.status(400).json({
-        jsonrpc: "2.0",
-        error: {
-          code: -32000,
-          message: "Bad Request: No valid session ID provided. Send an initialize request first.",
-        },
-        id: null,
-      });
+    }
+
+    const transport = sessionId ? await findSession(sessionId) : undefined;
+    if (!transport) {
+      sendSessionError(res, sessionId);
       return;
     }
 
+    await touchSession(sessionId!);
     await transport.handleRequest(req, res, req.body);
   } catch (error) {
-    log("error", "Error handling POST /mcp", { error: String(error) });
-    if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: "2.0",
-        error: { code: -32603, message: "Internal server error" },
-        id: null,
-      });
-    }
+    sendInternalError(res, "POST", error);
   }
 });
 
-// GET /mcp — SSE stream for server-to-client notifications
+// GET /mcp — SSE stream for server-to-client notifications; with Last-Event-ID,
+// replays what a dropped stream missed
 app.get("/mcp", async (req, res) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
-  if (!sessionId || !transports[sessionId]) {
-    res.status(400).json({
-      jsonrpc: "2.0",
-      error: { code: -32000, message: "Invalid or missing session ID" },
-      id: null,
-    });
-    return;
+  try {
+    const transport = sessionId ? await findSession(sessionId) : undefined;
+    if (!transport) {
+      sendSessionError(res, sessionId);
+      return;
+    }
+    await transport.handleRequest(req, res);
+  } catch (error) {
+    sendInternalError(res, "GET", error);
   }
-  await transports[sessionId].handleRequest(req, res);
 });
 
 // DELETE /mcp — session termination
 app.delete("/mcp", async (req, res) => {
   const sessionId = req.headers["mcp-session-id"] as string | undefined;
-  if (!sessionId || !transports[sessionId]) {
-    res.status(400).json({
-      jsonrpc: "2.0",
-      error: { code: -32000, message: "Invalid or missing session ID" },
-      id: null,
-    });
-    return;
+  try {
+    const transport = sessionId ? await findSession(sessionId) : undefined;
+    if (!transport) {
+      sendSessionError(res, sessionId);
+      return;
+    }
+    await transport.handleRequest(req, res);
+  } catch (error) {
+    sendInternalError(res, "DELETE", error);
   }
-  await transports[sessionId].handleRequest(req, res);
 });
 
 // Structured JSON logging
@@ -175,24 +320,68 @@ function log(level: string, message: string, meta?: Record<string, unknown>) {
 }
 
 // Graceful shutdown
-process.on("SIGINT", async () => {
-  log("info", "Shutting down...");
+async function closeLiveBrowser(): Promise<void> {
+  // Playwright is optional, so the pool is only loaded if it was ever used
+  try {
+    const { shutdownBrowserPool } = await import("./utils/browser-pool.js");
+    await shutdownBrowserPool();
+  } catch {
+    // Playwright not installed
+  }
+}
+
+// Sessions stay in the session store, so clients can carry on after a restart
+async function closeSessions(): Promise<void> {
   for (const sid of Object.keys(transports)) {
     await transports[sid].close();
     delete transports[sid];
   }
+  const eventStore = getEventStore();
+  if (eventStore instanceof FileEventStore) eventStore.flush();
+}
+
+process.on("SIGINT", async () => {
+  log("info", "Shutting down...");
+  await closeSessions();
+  await closeLiveBrowser();
   process.exit(0);
 });
 
 process.on("SIGTERM", async () => {
   log("info", "Shutting down...");
-  for (const sid of Object.keys(transports)) {
-    await transports[sid].close();
-    delete transports[sid];
-  }
+  await closeSessions();
+  await closeLiveBrowser();
   process.exit(0);
 });
 
+// Fail fast on bad rating data rather than on the first estimate
+try {
+  const ratingData = getRatingData();
+  log("info", "Loaded rating data", { dir: ratingData.dir, pricing_version: ratingData.pricingRules.version });
+} catch (error) {
+  log("error", "Rating data failed validation", { error: error instanceof Error ? error.message : String(error) });
+  process.exit(1);
+}
+if (process.env.RATING_DATA_WATCH !== "false") watchRatingData();
+
+function purgeExpired() {
+  getSessionStore()
+    .purgeExpired()
+    .then((purged) => purged > 0 && log("info", "Purged expired sessions", { purged }))
+    .catch((error) => log("error", "Failed to purge expired sessions", { error: String(error) }));
+  getQuoteStore()
+    .purgeExpired()
+    .then((purged) => purged > 0 && log("info", "Purged expired quotes", { purged }))
+    .catch((error) => log("error", "Failed to purge expired quotes", { error: String(error) }));
+  getQuoteDraftStore()
+    .purgeExpired()
+    .then((purged) => purged > 0 && log("info", "Purged expired quote drafts", { purged }))
+    .catch((error) => log("error", "Failed to purge expired quote drafts", { error: String(error) }));
+}
+purgeExpired();
+setInterval(purgeExpired, PURGE_INTERVAL_MS).unref();
+if (SESSION_IDLE_MS > 0) setInterval(closeIdleSessions, Math.min(SESSION_IDLE_MS, 60 * 1000)).unref();
+
 app.listen(PORT, () => {
   log("info", `RACV Insurance MCP server running`, {
     port: PORT,
@@ -1,8 +1,49 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { registerGetMotorQuote } from "./tools/get-motor-quote.js";
+import { registerEstimateMotorQuote } from "./tools/estimate-motor-quote.js";
+import { registerEstimateMotorcycleQuote } from "./tools/estimate-motorcycle-quote.js";
+import { registerEstimateCaravanQuote } from "./tools/estimate-caravan-quote.js";
 import { registerGetCoverage } from "./tools/get-coverage.js";
 import { registerStartFullQuote } from "./tools/start-full-quote.js";
+import { registerGetSavedQuote } from "./tools/get-saved-quote.js";
+import { registerCompareQuoteScenarios } from "./tools/compare-quote-scenarios.js";
+import { registerExplainPremium } from "./tools/explain-premium.js";
+import { registerSearchVehicles } from "./tools/search-vehicles.js";
+import { registerSearchPolicyWording } from "./tools/search-policy-wording.js";
+import { registerUpdateQuoteDraft } from "./tools/update-quote-draft.js";
+import { registerGetQuoteDraft } from "./tools/get-quote-draft.js";
+import { registerSubmitQuoteDraft } from "./tools/submit-quote-draft.js";
+import { registerWidgetResources } from "./resources/widgets.js";
+import { registerDataResources } from "./resources/data-resources.js";
+import { registerQuotePrompts } from "./prompts/quote-prompts.js";
+import { getRatingData, watchRatingData } from "./utils/rating-data.js";
+import { getQuoteStore } from "./utils/quote-store.js";
+import { getQuoteDraftStore } from "./utils/quote-drafts.js";
+
+// Fail fast on bad rating data rather than on the first estimate
+try {
+  getRatingData();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+if (process.env.RATING_DATA_WATCH !== "false") watchRatingData();
+
+// Expired quotes and drafts hold the customer's rego and address, so they aren't kept on disk
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+function purgeExpired() {
+  getQuoteStore()
+    .purgeExpired()
+    .then((purged) => purged > 0 && console.error(`[QuoteStore] Purged ${purged} expired quote(s)`))
+    .catch((error) => console.error("[QuoteStore] Failed to purge expired quotes:", error));
+  getQuoteDraftStore()
+    .purgeExpired()
+    .then((purged) => purged > 0 && console.error(`[QuoteDraftStore] Purged ${purged} expired quote draft(s)`))
+    .catch((error) => console.error("[QuoteDraftStore] Failed to purge expired quote drafts:", error));
+}
+purgeExpired();
+setInterval(purgeExpired, PURGE_INTERVAL_MS).unref();
 
 const server = new McpServer(
   {
@@ -17,8 +58,22 @@ const server = new McpServer(
 );
 
 registerGetMotorQuote(server);
+registerEstimateMotorQuote(server);
+registerEstimateMotorcycleQuote(server);
+registerEstimateCaravanQuote(server);
 registerGetCoverage(server);
 registerStartFullQuote(server);
+registerGetSavedQuote(server);
+registerCompareQuoteScenarios(server);
+registerExplainPremium(server);
+registerSearchVehicles(server);
+registerSearchPolicyWording(server);
+registerUpdateQuoteDraft(server);
+registerGetQuoteDraft(server);
+registerSubmitQuoteDraft(server);
+registerWidgetResources(server);
+registerDataResources(server);
+registerQuotePrompts(server);
 
 const transport = new StdioServerTransport();
 await server.connect(transport);
@@ -0,0 +1,124 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getCoverLabel, isVictorianPostcode, QuoteInput } from "../utils/quote-calculator.js";
+import { compareQuoteScenarios, validateVariations, ScenarioPrice } from "../utils/quote-scenarios.js";
+import { estimateMotorQuoteSchema, licenceAgeWithinDriverAge } from "./estimate-motor-quote.js";
+import { coverTypeSchema, scenarioComparisonShape } from "./output-schemas.js";
+
+export const compareQuoteScenariosSchema = {
+  ...estimateMotorQuoteSchema,
+  excess: z
+    .number()
+    .int()
+    .default(650)
+    .describe("Excess for the base quote. Comprehensive: 650, 800, 1000 or 1500; third party covers: 650 or 1000"),
+  scenarios: z
+    .array(
+      z.object({
+        label: z.string().optional().describe("Short name for this scenario, e.g. 'Garage + $1,000 excess'"),
+        cover_type: coverTypeSchema
+          .optional()
+          .describe("Switch to a different level of cover, e.g. third_party_fire_theft"),
+        parking_type: z
+          .enum(["garage", "carport", "street", "driveway"])
+          .optional()
+          .describe("Park the car somewhere else overnight"),
+        excess: z
+          .number()
+          .int()
+          .optional()
+          .describe("Choose a different excess. Must be offered with the scenario's cover"),
+        is_racv_member: z.boolean().optional().describe("Join (true) or leave (false) RACV"),
+        remove_drivers: z
+          .array(z.number().int().min(1))
+          .optional()
+          .describe("Additional drivers to drop: 1 = first entry in additional_drivers, 2 = second, ..."),
+      })
+    )
+    .min(1)
+    .max(8)
+    .describe("Changes to compare against the base quote. Each scenario changes only the fields it sets"),
+};
+
+function formatDelta(price: ScenarioPrice): string {
+  if (price.annual_delta === 0) return "no change";
+  const direction = price.annual_delta < 0 ? "save" : "add";
+  const sign = price.annual_delta_pct > 0 ? "+" : "";
+  return `${direction} $${Math.abs(price.annual_delta).toLocaleString()}/year (${sign}${price.annual_delta_pct}%)`;
+}
+
+function formatPrice(price: ScenarioPrice): string {
+  return `$${price.annual_premium.toLocaleString()}/year ($${price.monthly_premium.toLocaleString()}/month)`;
+}
+
+export function registerCompareQuoteScenarios(server: McpServer) {
+  server.registerTool(
+    "compare_quote_scenarios",
+    {
+      description: "Compare 'what if' options for an indicative car insurance estimate: switching cover level (comprehensive, third party fire & theft, third party property), parking the car elsewhere, choosing a different excess, joining RACV, or dropping an additional driver. Takes the same details as estimate_motor_quote plus a list of scenarios, and returns each scenario's annual and monthly premium side by side with the difference from the base quote. Uses RACV's offline rating rules, so figures are estimates, not live RACV prices.",
+      inputSchema: compareQuoteScenariosSchema,
+      outputSchema: scenarioComparisonShape,
+    },
+    async (params) => {
+      if (!isVictorianPostcode(params.postcode)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Postcode ${params.postcode} is not a Victorian postcode. RACV motor insurance estimates are only available for cars garaged in Victoria (postcodes starting with 3).`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (!licenceAgeWithinDriverAge(params)) {
+        return {
+          content: [{ type: "text", text: `A licence age of ${params.licence_age} is older than the driver's age of ${params.driver_age}.` }],
+          isError: true,
+        };
+      }
+
+      const base: QuoteInput = {
+        vehicle_make: params.vehicle_make,
+        vehicle_model: params.vehicle_model,
+        vehicle_year: params.vehicle_year,
+        postcode: params.postcode,
+        driver_age: params.driver_age,
+        licence_age: params.licence_age,
+        claims_last_5_years: params.claims_last_5_years,
+        parking_type: params.parking_type,
+        additional_drivers: params.additional_drivers,
+        is_racv_member: params.is_racv_member,
+        cover_type: params.cover_type,
+      };
+
+      const problems = validateVariations(base, params.excess, params.scenarios);
+      if (problems.length > 0) {
+        return {
+          content: [{ type: "text", text: `Could not compare these scenarios:\n${problems.map((p) => `• ${p}`).join("\n")}` }],
+          isError: true,
+        };
+      }
+
+      const comparison = compareQuoteScenarios(base, params.excess, params.scenarios);
+
+      const lines = [
+        `RACV Motor Insurance — What-if Comparison (indicative estimates)`,
+        ``,
+        `Vehicle: ${params.vehicle_year} ${params.vehicle_make} ${params.vehicle_model}, postcode ${params.postcode}`,
+        ``,
+        `${comparison.base.label}: ${formatPrice(comparison.base)} — ${getCoverLabel(comparison.base.cover_type)}, ${comparison.base.parking_type}, $${comparison.base.excess.toLocaleString()} excess${comparison.base.is_racv_member ? ", RACV member" : ""}`,
+        ...comparison.scenarios.map((s) => `${s.label}: ${formatPrice(s)} — ${formatDelta(s)}`),
+        ``,
+        `Cheapest option: ${comparison.cheapest}`,
+        ``,
+        `Source: RACV offline rating rules (estimates — not live RACV prices). Use estimate_motor_quote or get_motor_quote for a quote ID.`,
+      ];
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: { ...comparison },
+      };
+    }
+  );
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isVictorianPostcode } from "../utils/quote-calculator.js";
+import {
+  calculateCaravanQuote,
+  checkCaravanInput,
+  CaravanQuoteInput,
+  CaravanQuoteResult,
+} from "../utils/caravan-calculator.js";
+import { storeQuote } from "../utils/quote-store.js";
+import { caravanQuoteResultShape, caravanTypeSchema } from "./output-schemas.js";
+
+export const estimateCaravanQuoteSchema = {
+  caravan_type: caravanTypeSchema
+    .optional()
+    .describe("What is being insured: caravan, pop_top, camper_trailer, box_trailer or horse_float. Needed unless the make and model are in RACV's caravan catalogue"),
+  make: z
+    .string()
+    .optional()
+    .describe("Caravan or camper make, e.g. 'Jayco'. Optional — lets the type and value be looked up"),
+  model: z
+    .string()
+    .optional()
+    .describe("Caravan or camper model, e.g. 'Journey'"),
+  year: z
+    .number()
+    .int()
+    .min(1960)
+    .max(new Date().getFullYear() + 1)
+    .describe("Year of manufacture"),
+  agreed_value: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Amount to insure it for, in AUD. Needed for trailers, floats and anything not in the catalogue"),
+  postcode: z
+    .string()
+    .regex(/^\d{4}$/)
+    .describe("Victorian postcode where it is kept, e.g. '3220'"),
+  usage: z
+    .enum(["touring", "on_site"])
+    .default("touring")
+    .describe("touring = towed on trips; on_site = kept permanently at a caravan park or property"),
+  storage: z
+    .enum(["garage", "carport", "driveway", "storage_facility", "street"])
+    .default("driveway")
+    .describe("Where it is kept when not in use"),
+  claims_last_5_years: z
+    .number()
+    .int()
+    .min(0)
+    .max(5)
+    .default(0)
+    .describe("Number of claims in the last 5 years (0-5)"),
+  is_racv_member: z
+    .boolean()
+    .default(false)
+    .describe("Whether the owner is an RACV member (applies the member discount)"),
+};
+
+function formatCaravanLines(quote: CaravanQuoteResult): string[] {
+  const { caravan } = quote;
+  const name = [caravan.year, caravan.make, caravan.model].filter(Boolean).join(" ");
+  return [
+    `RACV Caravan & Trailer Insurance — Indicative Estimate`,
+    ``,
+    `Quote ID: ${quote.quote_id}`,
+    `Insured: ${name} (${caravan.type_label}), agreed value $${caravan.agreed_value.toLocaleString()}`,
+    `Risk zone: ${quote.risk_zone}`,
+    ...quote.warnings.map((warning) => `⚠ ${warning}`),
+    ``,
+    `Annual Premium: $${quote.premium_range_annual.min.toLocaleString()} – $${quote.premium_range_annual.max.toLocaleString()}`,
+    `Monthly Premium: $${quote.premium_range_monthly.min.toLocaleString()} – $${quote.premium_range_monthly.max.toLocaleString()}/month`,
+    ``,
+    `Excess options:`,
+    ...quote.excess_options.map(
+      (opt) =>
+        `• ${opt.label} — $${opt.annual_premium.toLocaleString()}/year or $${opt.monthly_premium.toLocaleString()}/month`
+    ),
+    ``,
+    quote.member_discount_applied
+      ? `Includes the ${quote.member_discount_pct}% RACV member discount.`
+      : `RACV members save ${quote.member_discount_pct}% on their premium.`,
+    `Valid until: ${quote.valid_until}`,
+    ``,
+    `Source: RACV offline caravan rating rules (estimate — not a live RACV price)`,
+    `Rating rules: version ${quote.pricing_version}, effective ${quote.pricing_effective_from}`,
+    ``,
+    ...quote.disclaimers,
+  ];
+}
+
+export function registerEstimateCaravanQuote(server: McpServer) {
+  server.registerTool(
+    "estimate_caravan_quote",
+    {
+      description: "Get an indicative caravan or trailer insurance estimate (caravans, pop-tops, camper trailers, box trailers and horse floats) using RACV's offline rating rules. Priced on the agreed value, which is looked up for catalogued caravans and campers or given directly, plus usage (touring or kept on site), storage, postcode and claims. Returns a premium range with excess options, not a bindable price.",
+      inputSchema: estimateCaravanQuoteSchema,
+      outputSchema: caravanQuoteResultShape,
+    },
+    async (params) => {
+      if (!isVictorianPostcode(params.postcode)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Postcode ${params.postcode} is not a Victorian postcode. RACV caravan and trailer insurance estimates are only available for vans and trailers kept in Victoria (postcodes starting with 3).`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const input: CaravanQuoteInput = { ...params };
+      const problems = checkCaravanInput(input);
+      if (problems.length > 0) {
+        return {
+          content: [{ type: "text", text: `Could not price this caravan or trailer:\n${problems.map((p) => `• ${p}`).join("\n")}` }],
+          isError: true,
+        };
+      }
+
+      const quote = calculateCaravanQuote(input);
+
+      await storeQuote({
+        quote_id: quote.quote_id,
+        source: "estimate",
+        input,
+        result: quote,
+        valid_until: quote.valid_until,
+      });
+
+      return {
+        content: [{ type: "text", text: formatCaravanLines(quote).join("\n") }],
+        structuredContent: { ...quote },
+      };
+    }
+  );
+}
@@ -0,0 +1,196 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { calculateQuote, isVictorianPostcode, QuoteInput, QuoteResult } from "../utils/quote-calculator.js";
+import { storeQuote } from "../utils/quote-store.js";
+import { QUOTE_WIDGET_URI, widgetMeta } from "../resources/widgets.js";
+import { coverTypeSchema, quoteResultShape } from "./output-schemas.js";
+
+/**
+ * A licence_age above the driver's age is rejected: left through, the calculator
+ * reads it as a newly licensed driver and adds the inexperienced driver excess.
+ * Refines the additional driver schemas; the main driver is checked in the tool
+ * handlers, as a refined top-level schema lists no properties in tools/list.
+ */
+export function licenceAgeWithinDriverAge(driver: { driver_age?: number; licence_age?: number }): boolean {
+  return driver.licence_age === undefined || driver.driver_age === undefined || driver.licence_age <= driver.driver_age;
+}
+
+export const LICENCE_AGE_ISSUE = { message: "licence_age can't be more than driver_age", path: ["licence_age"] };
+
+export const estimateMotorQuoteSchema = {
+  vehicle_make: z
+    .string()
+    .min(1)
+    .describe("Vehicle make, e.g. 'Toyota'"),
+  vehicle_model: z
+    .string()
+    .min(1)
+    .describe("Vehicle model, e.g. 'Corolla'"),
+  vehicle_year: z
+    .number()
+    .int()
+    .min(1980)
+    .max(new Date().getFullYear() + 1)
+    .describe("Year the vehicle was manufactured, e.g. 2022"),
+  postcode: z
+    .string()
+    .regex(/^\d{4}$/)
+    .describe("Victorian postcode where the car is garaged overnight, e.g. '3000'"),
+  driver_age: z
+    .number()
+    .int()
+    .min(17)
+    .max(99)
+    .describe("Primary driver's age (17-99)"),
+  licence_age: z
+    .number()
+    .int()
+    .min(16)
+    .max(80)
+    .optional()
+    .describe("Age the primary driver first obtained their licence. Optional — used for the inexperienced driver excess"),
+  claims_last_5_years: z
+    .number()
+    .int()
+    .min(0)
+    .max(5)
+    .default(0)
+    .describe("Number of at-fault claims in the last 5 years (0-5)"),
+  parking_type: z
+    .enum(["garage", "carport", "street", "driveway"])
+    .default("driveway")
+    .describe("Where the car is parked overnight: garage, carport, street or driveway"),
+  additional_drivers: z
+    .array(
+      z
+        .object({
+          driver_age: z.number().int().min(17).max(99).describe("Driver's age (17-99)"),
+          licence_age: z.number().int().min(16).max(80).optional().describe("Age this driver first obtained their licence"),
+          claims_last_5_years: z.number().int().min(0).max(5).default(0).describe("At-fault claims in the last 5 years (0-5)"),
+        })
+        .refine(licenceAgeWithinDriverAge, LICENCE_AGE_ISSUE)
+    )
+    .max(4)
+    .optional()
+    .describe("Other people who regularly drive the car. The premium is rated on the highest-risk driver"),
+  is_racv_member: z
+    .boolean()
+    .default(false)
+    .describe("Whether the driver is an RACV member (applies the member discount)"),
+  cover_type: coverTypeSchema
+    .default("comprehensive")
+    .describe("Level of cover: comprehensive, third_party_fire_theft (Third Party, Fire & Theft) or third_party_property (Third Party Property)"),
+};
+
+function driverName(index: number): string {
+  return index === 0 ? "main driver" : `driver ${index + 1}`;
+}
+
+export interface EstimateLineOptions {
+  /** Shown under the heading, e.g. why a live quote wasn't available. */
+  notice?: string[];
+  /** Shown above the risk zone, e.g. get_motor_quote's checked address. */
+  addressLine?: string;
+}
+
+/** Human-readable summary of a rating-rules estimate, shared with get_motor_quote's fallback. */
+export function formatEstimateLines(quote: QuoteResult, { notice = [], addressLine }: EstimateLineOptions = {}): string[] {
+  const { vehicle } = quote;
+  return [
+    `RACV ${quote.cover_label} Motor Insurance — Indicative Estimate`,
+    ``,
+    ...(notice.length > 0 ? [...notice, ``] : []),
+    `Quote ID: ${quote.quote_id}`,
+    `Vehicle: ${vehicle.year} ${vehicle.make} ${vehicle.model} (${vehicle.category}, est. value $${vehicle.estimated_value.toLocaleString()})`,
+    ...(addressLine ? [addressLine] : []),
+    `Risk zone: ${quote.risk_zone}`,
+    ...quote.warnings.map((warning) => `⚠ ${warning}`),
+    ...(quote.rated_driver.driver > 0
+      ? [`Rated on ${driverName(quote.rated_driver.driver)} (age ${quote.rated_driver.driver_age}), the highest-risk driver`]
+      : []),
+    ``,
+    `Annual Premium: $${quote.premium_range_annual.min.toLocaleString()} – $${quote.premium_range_annual.max.toLocaleString()}`,
+    `Monthly Premium: $${quote.premium_range_monthly.min.toLocaleString()} – $${quote.premium_range_monthly.max.toLocaleString()}/month`,
+    ``,
+    `Excess options:`,
+    ...quote.excess_options.map(
+      (opt) =>
+        `• ${opt.label} — $${opt.annual_premium.toLocaleString()}/year or $${opt.monthly_premium.toLocaleString()}/month`
+    ),
+    ...quote.driver_excesses.map(
+      (excess) =>
+        `Plus ${excess.label}: $${excess.amount.toLocaleString()} (${excess.drivers.map(driverName).join(", ")})`
+    ),
+    ``,
+    quote.member_discount_applied
+      ? `Includes the ${quote.member_discount_pct}% RACV member discount.`
+      : `RACV members save ${quote.member_discount_pct}% on their premium.`,
+    `Valid until: ${quote.valid_until}`,
+    ``,
+    `Source: RACV offline rating rules (estimate — not a live RACV price)`,
+    `Rating rules: version ${quote.pricing_version}, effective ${quote.pricing_effective_from}`,
+    ``,
+    ...quote.disclaimers,
+  ];
+}
+
+export function registerEstimateMotorQuote(server: McpServer) {
+  server.registerTool(
+    "estimate_motor_quote",
+    {
+      description: "Get an indicative motor insurance estimate (Comprehensive, Third Party Fire & Theft or Third Party Property) using RACV's offline rating rules. Works from the vehicle make, model and year plus the driver's postcode, age, claims history and parking. Does not need a browser or the live RACV website, so it always responds quickly — use it when a registration number isn't available or live quoting is unavailable. Returns a premium range, not a bindable price.",
+      inputSchema: estimateMotorQuoteSchema,
+      outputSchema: quoteResultShape,
+      _meta: widgetMeta(QUOTE_WIDGET_URI),
+    },
+    async (params) => {
+      if (!isVictorianPostcode(params.postcode)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Postcode ${params.postcode} is not a Victorian postcode. RACV motor insurance estimates are only available for cars garaged in Victoria (postcodes starting with 3).`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (!licenceAgeWithinDriverAge(params)) {
+        return {
+          content: [{ type: "text", text: `A licence age of ${params.licence_age} is older than the driver's age of ${params.driver_age}.` }],
+          isError: true,
+        };
+      }
+
+      const input: QuoteInput = {
+        vehicle_make: params.vehicle_make,
+        vehicle_model: params.vehicle_model,
+        vehicle_year: params.vehicle_year,
+        postcode: params.postcode,
+        driver_age: params.driver_age,
+        licence_age: params.licence_age,
+        claims_last_5_years: params.claims_last_5_years,
+        parking_type: params.parking_type,
+        additional_drivers: params.additional_drivers,
+        is_racv_member: params.is_racv_member,
+        cover_type: params.cover_type,
+      };
+      const quote = calculateQuote(input);
+
+      await storeQuote({
+        quote_id: quote.quote_id,
+        source: "estimate",
+        input,
+        result: quote,
+        valid_until: quote.valid_until,
+      });
+
+      const lines = formatEstimateLines(quote);
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: { ...quote },
+      };
+    }
+  );
+}
@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isVictorianPostcode } from "../utils/quote-calculator.js";
+import {
+  calculateMotorcycleQuote,
+  MotorcycleQuoteInput,
+  MotorcycleQuoteResult,
+} from "../utils/motorcycle-calculator.js";
+import { storeQuote } from "../utils/quote-store.js";
+import { motorcycleQuoteResultShape } from "./output-schemas.js";
+
+export const estimateMotorcycleQuoteSchema = {
+  motorcycle_make: z
+    .string()
+    .min(1)
+    .describe("Motorcycle make, e.g. 'Yamaha'"),
+  motorcycle_model: z
+    .string()
+    .min(1)
+    .describe("Motorcycle model, e.g. 'MT-07'"),
+  motorcycle_year: z
+    .number()
+    .int()
+    .min(1960)
+    .max(new Date().getFullYear() + 1)
+    .describe("Year the motorcycle was manufactured, e.g. 2021"),
+  postcode: z
+    .string()
+    .regex(/^\d{4}$/)
+    .describe("Victorian postcode where the motorcycle is kept overnight, e.g. '3121'"),
+  rider_age: z
+    .number()
+    .int()
+    .min(18)
+    .max(99)
+    .describe("Main rider's age (18-99)"),
+  licence_age: z
+    .number()
+    .int()
+    .min(18)
+    .max(99)
+    .describe("Age the rider got their full or probationary motorcycle licence (learner permits don't count)"),
+  claims_last_5_years: z
+    .number()
+    .int()
+    .min(0)
+    .max(5)
+    .default(0)
+    .describe("Number of at-fault claims in the last 5 years (0-5)"),
+  storage: z
+    .enum(["garage", "carport", "street", "driveway"])
+    .default("garage")
+    .describe("Where the motorcycle is kept overnight: garage, carport, street or driveway"),
+  is_racv_member: z
+    .boolean()
+    .default(false)
+    .describe("Whether the rider is an RACV member (applies the member discount)"),
+};
+
+function formatMotorcycleLines(quote: MotorcycleQuoteResult): string[] {
+  const { motorcycle } = quote;
+  return [
+    `RACV Motorcycle Insurance — Indicative Estimate`,
+    ``,
+    `Quote ID: ${quote.quote_id}`,
+    `Motorcycle: ${motorcycle.year} ${motorcycle.make} ${motorcycle.model} (${motorcycle.category}, est. value $${motorcycle.estimated_value.toLocaleString()})`,
+    `Risk zone: ${quote.risk_zone}`,
+    ...quote.warnings.map((warning) => `⚠ ${warning}`),
+    ``,
+    `Annual Premium: $${quote.premium_range_annual.min.toLocaleString()} – $${quote.premium_range_annual.max.toLocaleString()}`,
+    `Monthly Premium: $${quote.premium_range_monthly.min.toLocaleString()} – $${quote.premium_range_monthly.max.toLocaleString()}/month`,
+    ``,
+    `Excess options:`,
+    ...quote.excess_options.map(
+      (opt) =>
+        `• ${opt.label} — $${opt.annual_premium.toLocaleString()}/year or $${opt.monthly_premium.toLocaleString()}/month`
+    ),
+    ``,
+    quote.member_discount_applied
+      ? `Includes the ${quote.member_discount_pct}% RACV member discount.`
+      : `RACV members save ${quote.member_discount_pct}% on their premium.`,
+    `Valid until: ${quote.valid_until}`,
+    ``,
+    `Source: RACV offline motorcycle rating rules (estimate — not a live RACV price)`,
+    `Rating rules: version ${quote.pricing_version}, effective ${quote.pricing_effective_from}`,
+    ``,
+    ...quote.disclaimers,
+  ];
+}
+
+export function registerEstimateMotorcycleQuote(server: McpServer) {
+  server.registerTool(
+    "estimate_motorcycle_quote",
+    {
+      description: "Get an indicative comprehensive motorcycle insurance estimate using RACV's offline motorcycle rating rules. Works from the bike's make, model and year plus the rider's postcode, age, licence age, claims history and overnight storage. Rider age and riding experience weigh heavily. Returns a premium range with excess options, not a bindable price.",
+      inputSchema: estimateMotorcycleQuoteSchema,
+      outputSchema: motorcycleQuoteResultShape,
+    },
+    async (params) => {
+      if (!isVictorianPostcode(params.postcode)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Postcode ${params.postcode} is not a Victorian postcode. RACV motorcycle insurance estimates are only available for bikes kept in Victoria (postcodes starting with 3).`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      if (params.licence_age > params.rider_age) {
+        return {
+          content: [{ type: "text", text: `A licence age of ${params.licence_age} is older than the rider's age of ${params.rider_age}.` }],
+          isError: true,
+        };
+      }
+
+      const input: MotorcycleQuoteInput = { ...params };
+      const quote = calculateMotorcycleQuote(input);
+
+      await storeQuote({
+        quote_id: quote.quote_id,
+        source: "estimate",
+        input,
+        result: quote,
+        valid_until: quote.valid_until,
+      });
+
+      return {
+        content: [{ type: "text", text: formatMotorcycleLines(quote).join("\n") }],
+        structuredContent: { ...quote },
+      };
+    }
+  );
+}
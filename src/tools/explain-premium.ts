@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { calculateQuote, isVictorianPostcode, QuoteInput, QuoteResult } from "../utils/quote-calculator.js";
+import { getQuoteStore } from "../utils/quote-store.js";
+import type { MotorcycleQuoteResult } from "../utils/motorcycle-calculator.js";
+import type { CaravanQuoteResult } from "../utils/caravan-calculator.js";
+import { estimateMotorQuoteSchema, licenceAgeWithinDriverAge } from "./estimate-motor-quote.js";
+import { explainPremiumOutputShape } from "./output-schemas.js";
+
+// Every estimate field is optional here because a saved quote_id can stand in for them
+export const explainPremiumSchema = {
+  quote_id: z
+    .string()
+    .optional()
+    .describe("A quote ID from estimate_motor_quote (or a get_motor_quote estimate) to explain. Omit to explain from the details below"),
+  ...z.object(estimateMotorQuoteSchema).partial().shape,
+};
+
+function signed(amount: number): string {
+  return `${amount < 0 ? "−" : "+"}$${Math.abs(amount).toLocaleString()}`;
+}
+
+type Explainable = QuoteResult | MotorcycleQuoteResult | CaravanQuoteResult;
+
+/** What was rated ("2021 Yamaha MT-07") and what its base rate is for. */
+function describeRated(quote: Explainable): { name: string; basis: string } {
+  if ("product" in quote && quote.product === "motorcycle") {
+    const { motorcycle } = quote;
+    return { name: `${motorcycle.year} ${motorcycle.make} ${motorcycle.model}`, basis: `${motorcycle.category} motorcycles` };
+  }
+  if ("product" in quote && quote.product === "caravan") {
+    const { caravan } = quote;
+    return {
+      name: [caravan.year, caravan.make, caravan.model].filter(Boolean).join(" ") + ` (${caravan.type_label})`,
+      basis: `${caravan.type_label.toLowerCase()} worth $${caravan.agreed_value.toLocaleString()}`,
+    };
+  }
+  const car = quote as QuoteResult;
+  return {
+    name: `${car.vehicle.year} ${car.vehicle.make} ${car.vehicle.model}`,
+    // Estimates saved before cover types existed were all comprehensive
+    basis: `${car.cover_label ?? "Comprehensive"} cover, ${car.breakdown.category} vehicles`,
+  };
+}
+
+/** The breakdown as text: one line per factor with its multiplier and dollar effect. */
+export function formatBreakdownLines(quote: Explainable): string[] {
+  const { breakdown } = quote;
+  return [
+    `Base rate (${describeRated(quote).basis}): $${breakdown.base_rate.toLocaleString()}`,
+    ...breakdown.factors.map(
+      (f) => `× ${f.multiplier.toFixed(2)}  ${f.label}: ${f.bracket}  (${signed(f.contribution)} → $${f.running_total.toLocaleString()})`
+    ),
+    `= $${breakdown.annual_premium.toLocaleString()}/year with the standard excess`,
+    `Quoted as a range of $${quote.premium_range_annual.min.toLocaleString()} – $${quote.premium_range_annual.max.toLocaleString()}/year (±${Math.round(
+      ((quote.premium_range_annual.max - breakdown.annual_premium) / breakdown.annual_premium) * 100
+    )}%).`,
+  ];
+}
+
+type Params = z.infer<z.ZodObject<typeof explainPremiumSchema>>;
+
+async function resolveQuote(params: Params): Promise<{ quote: Explainable; quoteId?: string } | { error: string }> {
+  if (params.quote_id) {
+    const saved = await getQuoteStore().get(params.quote_id.trim());
+    if (!saved) {
+      return { error: `Quote ${params.quote_id} was not found. Provide the vehicle and driver details instead.` };
+    }
+    if (saved.source === "live") {
+      return {
+        error: `Quote ${saved.quote_id} is a live price from the RACV website, which doesn't disclose its rating factors. Only estimates can be broken down.`,
+      };
+    }
+    const result = saved.result as Explainable;
+    // Car estimates saved before breakdowns existed are re-rated from their inputs
+    const quote = result.breakdown ? result : calculateQuote(saved.input as QuoteInput);
+    return { quote, quoteId: saved.quote_id };
+  }
+
+  const missing = (["vehicle_make", "vehicle_model", "vehicle_year", "postcode", "driver_age"] as const).filter(
+    (key) => params[key] === undefined
+  );
+  if (missing.length > 0) {
+    return { error: `Provide a quote_id, or all of: ${missing.join(", ")}.` };
+  }
+  if (!isVictorianPostcode(params.postcode!)) {
+    return { error: `Postcode ${params.postcode} is not a Victorian postcode.` };
+  }
+  if (!licenceAgeWithinDriverAge(params)) {
+    return { error: `A licence age of ${params.licence_age} is older than the driver's age of ${params.driver_age}.` };
+  }
+
+  return {
+    quote: calculateQuote({
+      vehicle_make: params.vehicle_make!,
+      vehicle_model: params.vehicle_model!,
+      vehicle_year: params.vehicle_year!,
+      postcode: params.postcode!,
+      driver_age: params.driver_age!,
+      licence_age: params.licence_age,
+      claims_last_5_years: params.claims_last_5_years ?? 0,
+      parking_type: params.parking_type ?? "driveway",
+      additional_drivers: params.additional_drivers,
+      is_racv_member: params.is_racv_member ?? false,
+      cover_type: params.cover_type,
+    }),
+  };
+}
+
+export function registerExplainPremium(server: McpServer) {
+  server.registerTool(
+    "explain_premium",
+    {
+      description: "Explain why an indicative motor insurance estimate costs what it does. Lists every rating factor — driver age, claims history, postcode risk zone, overnight parking, vehicle age and member discount — with the bracket it fell into, its multiplier and how many dollars it added or saved. Pass a quote_id from estimate_motor_quote (or estimate_motorcycle_quote / estimate_caravan_quote), or the same car and driver details. Live RACV prices cannot be broken down.",
+      inputSchema: explainPremiumSchema,
+      outputSchema: explainPremiumOutputShape,
+    },
+    async (params) => {
+      const resolved = await resolveQuote(params);
+      if ("error" in resolved) {
+        return { content: [{ type: "text", text: resolved.error }], isError: true };
+      }
+
+      const { quote, quoteId } = resolved;
+      const vehicle = describeRated(quote).name;
+      const lines = [
+        `Why this premium? — ${vehicle}${quoteId ? ` (${quoteId})` : ""}`,
+        ``,
+        ...formatBreakdownLines(quote),
+        // Estimates saved before warnings existed don't have them
+        ...(quote.warnings ?? []).map((warning) => `⚠ ${warning}`),
+        ``,
+        `Factors are applied in the order shown, so each dollar amount is measured after the ones above it.`,
+        `Source: RACV offline rating rules (estimate — not a live RACV price).`,
+      ];
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: {
+          quote_id: quoteId,
+          vehicle,
+          premium_range_annual: quote.premium_range_annual,
+          breakdown: quote.breakdown,
+        },
+      };
+    }
+  );
+}
@@ -1,16 +1,40 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type {
+  CallToolResult,
+  PrimitiveSchemaDefinition,
+  ServerNotification,
+  ServerRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { generateQuoteId, storeQuote } from "../utils/quote-store.js";
+import { QUOTE_WIDGET_URI, widgetMeta } from "../resources/widgets.js";
+import { getQuoteProviders, runProviderChain, ProviderAttempt, QuoteProgress } from "../providers/index.js";
+import type { RacvQuoteResult } from "../utils/racv-scraper.js";
+import { coverTypeSchema, getMotorQuoteOutputShape, productSchema } from "./output-schemas.js";
+import { getCoverLabel } from "../utils/quote-calculator.js";
+import { formatEstimateLines, LICENCE_AGE_ISSUE, licenceAgeWithinDriverAge } from "./estimate-motor-quote.js";
+import { formatGazetteerEntry, resolveAddress, ResolvedAddress } from "../utils/address-parser.js";
+import { checkRego, RegoCheck } from "../utils/rego.js";
+import { PRODUCT_INFO, Product } from "../utils/products.js";
+
+const LIVE_QUOTE_VALID_DAYS = 30;
+
+// Rounds of asking the user before giving up and returning what is still missing
+const MAX_ELICITATION_ROUNDS = 2;
+// Filling in a form takes longer than the SDK's default request timeout
+const ELICITATION_TIMEOUT_MS = 10 * 60 * 1000;
 
 export const getMotorQuoteSchema = {
   rego: z
     .string()
     .min(1)
     .max(10)
-    .describe("Vehicle registration number (Victorian number plate, e.g. 'ABC123')"),
+    .describe("Vehicle registration number (Victorian number plate, e.g. 'ABC123' or '1AB 2CD'). Spaces and dashes are ignored"),
   address: z
     .string()
     .min(5)
-    .describe("Full street address in Victoria, e.g. '80 Bourke Street Melbourne'"),
+    .describe("Full street address in Victoria including suburb and postcode, e.g. '80 Bourke Street, Melbourne VIC 3000'"),
   driver_age: z
     .number()
     .int()
@@ -37,92 +61,499 @@ export const getMotorQuoteSchema = {
     .boolean()
     .default(false)
     .describe("Whether the driver is an RACV member"),
+  vehicle_make: z
+    .string()
+    .optional()
+    .describe("Vehicle make, e.g. 'Toyota'. Optional — used for an indicative estimate if the live RACV quote is unavailable"),
+  vehicle_model: z
+    .string()
+    .optional()
+    .describe("Vehicle model, e.g. 'Corolla'. Optional — used for an indicative estimate if the live RACV quote is unavailable"),
+  vehicle_year: z
+    .number()
+    .int()
+    .min(1980)
+    .max(new Date().getFullYear() + 1)
+    .optional()
+    .describe("Year of manufacture. Optional — used for an indicative estimate if the live RACV quote is unavailable"),
+  postcode: z
+    .string()
+    .regex(/^\d{4}$/)
+    .optional()
+    .describe("Postcode where the car is kept. Optional — taken from the address when omitted"),
+  parking_type: z
+    .enum(["garage", "carport", "street", "driveway"])
+    .optional()
+    .describe("Where the car is parked overnight. Optional — only used for an indicative estimate"),
+  additional_drivers: z
+    .array(
+      z
+        .object({
+          driver_age: z.number().int().min(17).max(99).describe("Driver's age (17-99)"),
+          driver_gender: z.enum(["male", "female"]).describe("Driver's gender"),
+          licence_age: z.number().int().min(16).max(80).describe("Age when this driver first obtained their licence"),
+          claims_last_5_years: z.number().int().min(0).max(5).default(0).describe("At-fault claims in the last 5 years (0-5)"),
+        })
+        .refine(licenceAgeWithinDriverAge, LICENCE_AGE_ISSUE)
+    )
+    .max(4)
+    .optional()
+    .describe("Other people who regularly drive the car. The premium is rated on the highest-risk driver, and young or inexperienced drivers add an excess"),
+  product: productSchema
+    .default("car")
+    .describe("What is being insured: car, motorcycle or caravan (caravans and trailers). Motorcycle and caravan quotes are live only — their estimates have their own tools"),
+  cover_type: coverTypeSchema
+    .default("comprehensive")
+    .describe("Level of cover: comprehensive, third_party_fire_theft (Third Party, Fire & Theft) or third_party_property (Third Party Property)"),
+  force_refresh: z
+    .boolean()
+    .optional()
+    .describe("Re-run the live RACV quote even if an identical one was fetched recently. Only set this when the user asks for a fresh price"),
+};
+
+/** The customer's details get_motor_quote can't quote without; everything else has a default or is optional. */
+export const CUSTOMER_FIELDS = ["rego", "address", "driver_age", "driver_gender", "licence_age"] as const;
+export type CustomerField = (typeof CUSTOMER_FIELDS)[number];
+
+/**
+ * What the tool accepts. The customer's details may be missing or out of range:
+ * they're checked in the handler, so the user can be asked for them instead of
+ * the call failing validation before the tool sees it.
+ */
+export const getMotorQuoteInputSchema = {
+  ...getMotorQuoteSchema,
+  rego: z.string().optional().describe(getMotorQuoteSchema.rego.description!),
+  address: z.string().optional().describe(getMotorQuoteSchema.address.description!),
+  driver_age: z.number().optional().describe(getMotorQuoteSchema.driver_age.description!),
+  driver_gender: getMotorQuoteSchema.driver_gender.optional(),
+  licence_age: z.number().optional().describe(getMotorQuoteSchema.licence_age.description!),
+};
+
+export type MotorQuoteInput = z.infer<z.ZodObject<typeof getMotorQuoteInputSchema>>;
+export type MotorQuoteParams = z.infer<z.ZodObject<typeof getMotorQuoteSchema>>;
+
+export interface QuoteFieldIssue {
+  field: CustomerField;
+  problem: "missing" | "invalid";
+  message: string;
+  /** Close matches for an address that couldn't be used, e.g. "Richmond VIC 3121". */
+  suggestions?: string[];
+}
+
+export interface CheckedQuoteFields {
+  params: MotorQuoteParams;
+  rego: Extract<RegoCheck, { ok: true }>;
+  address: ResolvedAddress;
+}
+
+export type QuoteFieldCheck = ({ ok: true } & CheckedQuoteFields) | { ok: false; issues: QuoteFieldIssue[] };
+
+// How each field is asked for in an elicitation form
+const FIELD_FORMS: Record<CustomerField, PrimitiveSchemaDefinition> = {
+  rego: { type: "string", title: "Registration number", description: "Victorian number plate, e.g. ABC123", maxLength: 10 },
+  address: {
+    type: "string",
+    title: "Address where the vehicle is kept",
+    description: "Street, suburb and postcode, e.g. 80 Bourke Street, Melbourne VIC 3000",
+    minLength: 5,
+  },
+  driver_age: { type: "integer", title: "Driver's age", minimum: 17, maximum: 99 },
+  driver_gender: { type: "string", title: "Driver's gender", enum: ["male", "female"], enumNames: ["Male", "Female"] },
+  licence_age: { type: "integer", title: "Age when first licensed", minimum: 16, maximum: 80 },
 };
 
+function isBlank(value: unknown): boolean {
+  return value === undefined || (typeof value === "string" && !value.trim());
+}
+
+/**
+ * Check the customer's details against getMotorQuoteSchema, then the rego and
+ * address against the plate formats and gazetteer, and report every field that
+ * is missing or can't be used — not just the first.
+ */
+export function checkQuoteFields(input: MotorQuoteInput): QuoteFieldCheck {
+  const issues: QuoteFieldIssue[] = [];
+  for (const field of CUSTOMER_FIELDS) {
+    const value = input[field];
+    if (isBlank(value)) {
+      issues.push({ field, problem: "missing", message: `${FIELD_FORMS[field].title} is needed` });
+      continue;
+    }
+    const parsed = getMotorQuoteSchema[field].safeParse(value);
+    if (!parsed.success) {
+      issues.push({ field, problem: "invalid", message: `${FIELD_FORMS[field].title}: ${parsed.error.issues[0].message}` });
+    }
+  }
+  const invalid = new Set(issues.map((issue) => issue.field));
+
+  let rego: RegoCheck | undefined;
+  if (!invalid.has("rego")) {
+    rego = checkRego(input.rego!);
+    if (!rego.ok) {
+      issues.push({ field: "rego", problem: "invalid", message: rego.error });
+    } else if (rego.plate_type === "trailer" && input.product !== "caravan") {
+      issues.push({
+        field: "rego",
+        problem: "invalid",
+        message: `${rego.rego} looks like a trailer plate. Use product "caravan" for a trailer, or give the ${input.product}'s own registration number`,
+      });
+    }
+  }
+
+  let address: ResolvedAddress | undefined;
+  if (!invalid.has("address")) {
+    const resolution = resolveAddress(input.address!, { postcode: input.postcode });
+    if (resolution.ok) {
+      address = resolution.address;
+    } else {
+      issues.push({
+        field: "address",
+        problem: "invalid",
+        message: `Could not use the address "${input.address}": ${resolution.message}`,
+        suggestions: resolution.suggestions.length > 0 ? resolution.suggestions.map(formatGazetteerEntry) : undefined,
+      });
+    }
+  }
+
+  if (!invalid.has("driver_age") && !invalid.has("licence_age") && input.licence_age! > input.driver_age!) {
+    issues.push({
+      field: "licence_age",
+      problem: "invalid",
+      message: `The driver can't have been licensed at ${input.licence_age} if they are ${input.driver_age}`,
+    });
+  }
+
+  if (issues.length > 0 || !rego?.ok || !address) {
+    issues.sort((a, b) => CUSTOMER_FIELDS.indexOf(a.field) - CUSTOMER_FIELDS.indexOf(b.field));
+    return { ok: false, issues };
+  }
+  return { ok: true, params: z.object(getMotorQuoteSchema).parse(input), rego, address };
+}
+
+function canElicit(server: McpServer): boolean {
+  return Boolean(server.server.getClientCapabilities()?.elicitation?.form);
+}
+
+/** A form field for one issue, saying what was wrong and pre-filled with the value to correct. */
+function issueForm(issue: QuoteFieldIssue, input: MotorQuoteInput): PrimitiveSchemaDefinition {
+  const form = FIELD_FORMS[issue.field];
+  if (issue.problem === "missing") return form;
+  const hint = issue.suggestions ? ` Did you mean: ${issue.suggestions.join("; ")}?` : "";
+  const current = input[issue.field];
+  return {
+    ...form,
+    description: `${issue.message}.${hint}`,
+    ...(typeof current === "string" && form.type === "string" && !("enum" in form) ? { default: current } : {}),
+  } as PrimitiveSchemaDefinition;
+}
+
+export type ElicitationAction = "accept" | "decline" | "cancel";
+
+/**
+ * Ask the user for the missing or unusable fields with an MCP elicitation form,
+ * re-asking (up to MAX_ELICITATION_ROUNDS) for anything the answers didn't fix.
+ */
+async function elicitQuoteFields(
+  server: McpServer,
+  input: MotorQuoteInput,
+  issues: QuoteFieldIssue[],
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<{ check: QuoteFieldCheck; action: ElicitationAction }> {
+  let check: QuoteFieldCheck = { ok: false, issues };
+  for (let round = 0; round < MAX_ELICITATION_ROUNDS && !check.ok; round++) {
+    const product = PRODUCT_INFO[input.product].label.toLowerCase();
+    const result = await server.server.elicitInput(
+      {
+        mode: "form",
+        message: round === 0
+          ? `A few more details are needed for your RACV ${product} insurance quote.`
+          : `Some of those details couldn't be used. Please check them and try again.`,
+        requestedSchema: {
+          type: "object",
+          properties: Object.fromEntries(check.issues.map((issue) => [issue.field, issueForm(issue, input)])),
+          required: check.issues.map((issue) => issue.field),
+        },
+      },
+      { signal: extra.signal, relatedRequestId: extra.requestId, timeout: ELICITATION_TIMEOUT_MS }
+    );
+    if (result.action !== "accept") return { check, action: result.action };
+
+    input = { ...input, ...result.content };
+    check = checkQuoteFields(input);
+  }
+  return { check, action: "accept" };
+}
+
+function formatNeedsMoreInfo(issues: QuoteFieldIssue[], action: ElicitationAction | undefined, retry: string): string[] {
+  const lines = [
+    action === "decline" || action === "cancel"
+      ? `The customer didn't provide the details needed for a quote.`
+      : `More information is needed before a quote can be given:`,
+    ``,
+  ];
+  for (const issue of issues) {
+    lines.push(`• ${issue.message} (${issue.field})`);
+    if (issue.suggestions) lines.push(`  Did you mean: ${issue.suggestions.join("; ")}`);
+  }
+  lines.push(
+    ``,
+    action === "decline" || action === "cancel"
+      ? `Don't ask for them again unless the customer offers; a quote can't be given without them.`
+      : `Ask the customer for these, then ${retry}.`
+  );
+  return lines;
+}
+
+function formatAddressLine(address: ResolvedAddress): string {
+  const corrected = address.corrected_from ? ` — corrected from "${address.corrected_from}"` : "";
+  const zone = address.risk_zone_label ?? "suburb not in our list, no postcode given";
+  return `Address: ${address.formatted} (${zone}${corrected})`;
+}
+
+function formatAttempts(attempts: ProviderAttempt[]): string[] {
+  return attempts.map((a) => `• ${a.provider}: ${a.error}`);
+}
+
+function formatLiveFailure(result: RacvQuoteResult | undefined, attempts: ProviderAttempt[], product: Product): string[] {
+  // Only the first line: a missing browser's error is Playwright's whole install banner
+  const error = result?.error?.split("\n")[0] || attempts[attempts.length - 1]?.error || "No quote provider could handle this request";
+  const lines = [
+    `RACV Quote - Unable to Complete`,
+    ``,
+    `Vehicle: ${result?.vehicle_description || "Not found"}`,
+    `Step reached: ${result?.step_reached || "unknown"}`,
+    `Error: ${error}`,
+  ];
+
+  if (result?.raw_amounts && result.raw_amounts.length > 0) {
+    lines.push(``, `Amounts found on page: ${result.raw_amounts.join(", ")}`);
+  }
+
+  if (result?.screenshot_path) {
+    lines.push(``, `Screenshot saved to: ${result.screenshot_path}`);
+  }
+
+  lines.push(
+    ``,
+    `Providers tried:`,
+    ...formatAttempts(attempts),
+    ``,
+    product === "car"
+      ? `Tip: include the vehicle make, model and year so an indicative estimate can be given when a live quote isn't possible.`
+      : `Tip: use ${PRODUCT_INFO[product].estimate_tool} for an indicative estimate when a live quote isn't possible.`,
+  );
+  return lines;
+}
+
+/**
+ * Forward provider progress to the client: a progress notification when the request
+ * carried a progress token, and an info log message either way. A live quote takes
+ * a minute or more, so this is the only sign of life the host gets.
+ */
+function progressForwarder(
+  server: McpServer,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): (progress: QuoteProgress) => void {
+  const progressToken = extra._meta?.progressToken;
+  let sequence = 0;
+
+  return ({ provider, step, message }) => {
+    if (extra.signal.aborted) return;
+    if (progressToken !== undefined) {
+      extra
+        .sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: ++sequence, message },
+        })
+        .catch((error) => console.error("[Quote] Failed to send progress:", error));
+    }
+    server
+      .sendLoggingMessage({ level: "info", logger: "get_motor_quote", data: { provider, step, message } }, extra.sessionId)
+      .catch(() => {});
+  };
+}
+
+/**
+ * Check the customer's details and, when the client supports elicitation, ask the
+ * user for any that are missing or can't be used. Checking the rego and address
+ * comes before anything slow: a wrong suburb would otherwise only surface after
+ * the live quote has driven half the RACV form.
+ */
+export async function collectQuoteFields(
+  server: McpServer,
+  input: MotorQuoteInput,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<{ check: QuoteFieldCheck; elicitation?: ElicitationAction }> {
+  const check = checkQuoteFields(input);
+  if (check.ok || !canElicit(server)) return { check };
+  try {
+    const elicited = await elicitQuoteFields(server, input, check.issues, extra);
+    return { check: elicited.check, elicitation: elicited.action };
+  } catch (error) {
+    console.error("[Quote] Elicitation failed:", error);
+    return { check };
+  }
+}
+
+export function needsMoreInfoResult(
+  issues: QuoteFieldIssue[],
+  elicitation?: ElicitationAction,
+  retry = "call get_motor_quote again with all of their details"
+): CallToolResult {
+  return {
+    content: [{ type: "text", text: formatNeedsMoreInfo(issues, elicitation, retry).join("\n") }],
+    structuredContent: {
+      success: false,
+      error: "More information is needed for a quote",
+      missing_fields: issues,
+      elicitation,
+    },
+  };
+}
+
+/** Run the provider chain for a checked request, store the quote and format the result. */
+export async function quoteMotor(
+  server: McpServer,
+  { params, rego, address }: CheckedQuoteFields,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult> {
+  console.log(`[Quote] Starting RACV ${params.product} quote for rego: ${rego.rego} (${rego.plate_type})`);
+
+  const chain = await runProviderChain(
+    getQuoteProviders(),
+    { ...params, rego: rego.rego, address: address.formatted, postcode: address.postcode },
+    { onProgress: progressForwarder(server, extra) }
+  );
+
+  if (!chain.ok) {
+    const result = chain.result ?? { success: false, error: chain.attempts[chain.attempts.length - 1]?.error };
+    return {
+      content: [{ type: "text", text: formatLiveFailure(chain.result, chain.attempts, params.product).join("\n") }],
+      structuredContent: { ...result, attempts: chain.attempts, address, plate_type: rego.plate_type },
+    };
+  }
+
+  if (chain.source === "estimate") {
+    const quote = chain.result;
+    await storeQuote({
+      quote_id: quote.quote_id,
+      source: "estimate",
+      input: chain.input,
+      result: quote,
+      valid_until: quote.valid_until,
+    });
+
+    const fallbackReason = chain.attempts.length > 0
+      ? chain.attempts.map((a) => a.error).join("; ")
+      : undefined;
+
+    const lines = formatEstimateLines(quote, {
+      addressLine: formatAddressLine(address),
+      notice: fallbackReason
+        ? [
+            `⚠ A live RACV quote was not available (${fallbackReason}).`,
+            `The figures below are an indicative estimate from RACV's rating rules, not a live RACV price.`,
+          ]
+        : [],
+    });
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      structuredContent: {
+        success: true,
+        source: "estimate",
+        fallback_reason: fallbackReason,
+        attempts: chain.attempts,
+        address,
+        plate_type: rego.plate_type,
+        ...quote,
+      },
+    };
+  }
+
+  const result = chain.result;
+  const coverLabel = getCoverLabel(params.cover_type);
+  const validUntil = new Date();
+  validUntil.setDate(validUntil.getDate() + LIVE_QUOTE_VALID_DAYS);
+
+  const saved = await storeQuote({
+    quote_id: generateQuoteId(),
+    source: "live",
+    input: chain.input,
+    result,
+    valid_until: validUntil.toISOString(),
+  });
+
+  const lines = [
+    `RACV ${coverLabel} ${params.product === "car" ? "Motor" : PRODUCT_INFO[params.product].label} Insurance Quote`,
+    ``,
+    `Quote ID: ${saved.quote_id}`,
+    `Vehicle: ${result.vehicle_description}`,
+    `Registration: ${rego.rego} (${rego.description})`,
+    formatAddressLine(address),
+    ``,
+  ];
+
+  if (result.annual_premium) {
+    lines.push(`Annual Premium: $${result.annual_premium.toLocaleString()}`);
+  }
+  if (result.monthly_premium) {
+    lines.push(`Monthly Premium: $${result.monthly_premium.toLocaleString()}/month`);
+  }
+  if (result.excess_amount) {
+    lines.push(`Standard Excess: $${result.excess_amount.toLocaleString()}`);
+  }
+  for (const excess of result.driver_excesses ?? []) {
+    lines.push(`${excess.label}: $${excess.amount.toLocaleString()} (on top of the standard excess)`);
+  }
+
+  lines.push(
+    ``,
+    `Valid until: ${saved.valid_until.split("T")[0]}`,
+    `Source: Live quote from RACV website (my.racv.com.au)`,
+  );
+
+  if (chain.cache?.hit) {
+    lines.push(`Fetched: ${chain.cache.cached_at} (cached — pass force_refresh to re-run the RACV quote)`);
+  }
+
+  lines.push(
+    `Note: This is a real indicative quote. Final pricing may vary when completing the full application on the RACV website.`,
+  );
+
+  if (result.raw_amounts && result.raw_amounts.length > 0) {
+    lines.push(``, `All amounts found on quote page: ${result.raw_amounts.join(", ")}`);
+  }
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: {
+      source: "live",
+      quote_id: saved.quote_id,
+      valid_until: saved.valid_until,
+      attempts: chain.attempts,
+      cache: chain.cache,
+      address,
+      plate_type: rego.plate_type,
+      cover_label: coverLabel,
+      ...result,
+    },
+  };
+}
+
 export function registerGetMotorQuote(server: McpServer) {
-  server.tool(
+  server.registerTool(
     "get_motor_quote",
-    "Get a REAL comprehensive motor insurance quote from the RACV website for a Victorian-registered vehicle. Uses the vehicle's registration number (rego) to look up the car, then fills out the RACV quote form with the driver's details to get an actual premium. This scrapes the live RACV website and returns real pricing — not estimates.",
-    getMotorQuoteSchema,
-    async (params) => {
-      try {
-        console.log(`[Quote] Starting live RACV quote for rego: ${params.rego}`);
-
-        const { scrapeRacvQuote } = await import("../utils/racv-scraper.js");
-
-        const result = await scrapeRacvQuote({
-          rego: params.rego,
-          address: params.address,
-          driver_age: params.driver_age,
-          driver_gender: params.driver_gender,
-          licence_age: params.licence_age,
-          claims_last_5_years: params.claims_last_5_years,
-          is_racv_member: params.is_racv_member,
-        });
-
-        if (result.success) {
-          const lines = [
-            `RACV Comprehensive Motor Insurance Quote`,
-            ``,
-            `Vehicle: ${result.vehicle_description}`,
-            ``,
-          ];
-
-          if (result.annual_premium) {
-            lines.push(`Annual Premium: $${result.annual_premium.toLocaleString()}`);
-          }
-          if (result.monthly_premium) {
-            lines.push(`Monthly Premium: $${result.monthly_premium.toLocaleString()}/month`);
-          }
-          if (result.excess_amount) {
-            lines.push(`Standard Excess: $${result.excess_amount.toLocaleString()}`);
-          }
-
-          lines.push(
-            ``,
-            `Source: Live quote from RACV website (my.racv.com.au)`,
-            `Note: This is a real indicative quote. Final pricing may vary when completing the full application on the RACV website.`,
-          );
-
-          if (result.raw_amounts && result.raw_amounts.length > 0) {
-            lines.push(``, `All amounts found on quote page: ${result.raw_amounts.join(", ")}`);
-          }
-
-          return {
-            content: [{ type: "text", text: lines.join("\n") }],
-          };
-        } else {
-          // Quote failed - return error with context
-          const errorLines = [
-            `RACV Quote - Unable to Complete`,
-            ``,
-            `Vehicle: ${result.vehicle_description || "Not found"}`,
-            `Step reached: ${result.step_reached || "unknown"}`,
-            `Error: ${result.error}`,
-          ];
-
-          if (result.raw_amounts && result.raw_amounts.length > 0) {
-            errorLines.push(``, `Amounts found on page: ${result.raw_amounts.join(", ")}`);
-          }
-
-          if (result.screenshot_path) {
-            errorLines.push(``, `Screenshot saved to: ${result.screenshot_path}`);
-          }
-
-          return {
-            content: [{ type: "text", text: errorLines.join("\n") }],
-          };
-        }
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Failed to get RACV quote: ${error instanceof Error ? error.message : String(error)}\n\nThis tool requires Playwright and a browser to be available on the server. Make sure the server is running locally with Playwright installed.`,
-            },
-          ],
-        };
-      }
+    {
+      description: "Get a motor insurance quote (Comprehensive, Third Party Fire & Theft or Third Party Property) for a Victorian-registered vehicle. First tries a REAL quote from the live RACV website: looks up the car by registration number (rego) and fills out the RACV quote form with the driver's details. If the RACV site or browser automation is unavailable, falls back to an indicative estimate from RACV's rating rules (needs vehicle make, model and year). Set `product` to get a live motorcycle or caravan/trailer quote the same way; those have no estimate fallback here (use estimate_motorcycle_quote or estimate_caravan_quote). The result's `source` field says which one you got — always tell the user when it is an estimate.",
+      inputSchema: getMotorQuoteInputSchema,
+      outputSchema: getMotorQuoteOutputShape,
+      _meta: widgetMeta(QUOTE_WIDGET_URI),
+    },
+    async (input, extra) => {
+      const { check, elicitation } = await collectQuoteFields(server, input, extra);
+      if (!check.ok) return needsMoreInfoResult(check.issues, elicitation);
+      return quoteMotor(server, check, extra);
     }
   );
 }
@@ -0,0 +1,100 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { loadQuoteDraft, QuoteDraft, QuoteDraftFields } from "../utils/quote-drafts.js";
+import { checkQuoteFields, getMotorQuoteInputSchema, MotorQuoteInput, QuoteFieldIssue } from "./get-motor-quote.js";
+import { quoteDraftOutputShape } from "./output-schemas.js";
+
+// stdio serves a single client per process, so it has a single draft
+const STDIO_SESSION = "stdio";
+
+const ESTIMATE_FIELDS = ["vehicle_make", "vehicle_model", "vehicle_year"] as const;
+
+export interface QuoteDraftStatus {
+  fields: QuoteDraftFields;
+  /** True when every detail get_motor_quote needs is present and usable. */
+  ready: boolean;
+  missing_fields: QuoteFieldIssue[];
+  /** Car details the estimate fallback needs; a live quote doesn't. */
+  estimate_fields_missing: string[];
+  created_at: string;
+  updated_at: string;
+  last_quote_id?: string;
+}
+
+/** The draft belongs to the MCP session (the Mcp-Session-Id header over HTTP). */
+export function draftSessionId(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): string {
+  return extra.sessionId ?? STDIO_SESSION;
+}
+
+/** The draft as get_motor_quote input, with its defaults filled in. */
+export function draftInput(fields: QuoteDraftFields): MotorQuoteInput {
+  return z.object(getMotorQuoteInputSchema).parse(fields);
+}
+
+export function quoteDraftStatus(draft: QuoteDraft): QuoteDraftStatus {
+  const check = checkQuoteFields(draftInput(draft.fields));
+  const product = draft.fields.product ?? "car";
+  return {
+    fields: draft.fields,
+    ready: check.ok,
+    missing_fields: check.ok ? [] : check.issues,
+    estimate_fields_missing: product === "car" ? ESTIMATE_FIELDS.filter((field) => draft.fields[field] === undefined) : [],
+    created_at: draft.created_at,
+    updated_at: draft.updated_at,
+    last_quote_id: draft.last_quote_id,
+  };
+}
+
+export function formatDraftLines(status: QuoteDraftStatus): string[] {
+  const lines: string[] = [];
+  const entries = Object.entries(status.fields);
+  if (entries.length > 0) {
+    lines.push(`Details so far:`, ...entries.map(([field, value]) => `• ${field}: ${JSON.stringify(value)}`));
+  } else {
+    lines.push(`No details yet.`);
+  }
+
+  if (status.missing_fields.length > 0) {
+    lines.push(``, `Still needed:`, ...status.missing_fields.map((issue) => `• ${issue.message} (${issue.field})`));
+    for (const issue of status.missing_fields) {
+      if (issue.suggestions) lines.push(`  Did you mean: ${issue.suggestions.join("; ")}`);
+    }
+  }
+  if (status.estimate_fields_missing.length > 0) {
+    lines.push(
+      ``,
+      `Not needed for a live quote, but without ${status.estimate_fields_missing.join(", ")} there is no estimate to fall back on if the RACV site is unavailable.`
+    );
+  }
+
+  lines.push(
+    ``,
+    status.ready
+      ? `Ready to quote: call submit_quote_draft.`
+      : `Ask the customer for what's still needed and add it with update_quote_draft.`
+  );
+  if (status.last_quote_id) {
+    lines.push(`Last quote from this draft: ${status.last_quote_id}`);
+  }
+  return lines;
+}
+
+export function registerGetQuoteDraft(server: McpServer) {
+  server.registerTool(
+    "get_quote_draft",
+    {
+      description: "Show the motor quote details collected so far in this conversation with update_quote_draft, what is still missing or unusable, and whether the draft is ready for submit_quote_draft.",
+      inputSchema: {},
+      outputSchema: quoteDraftOutputShape,
+    },
+    async (_params, extra) => {
+      const status = quoteDraftStatus(await loadQuoteDraft(draftSessionId(extra)));
+      return {
+        content: [{ type: "text", text: [`Quote Draft`, ``, ...formatDraftLines(status)].join("\n") }],
+        structuredContent: { ...status },
+      };
+    }
+  );
+}
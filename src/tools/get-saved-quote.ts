@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { QuoteResult } from "../utils/quote-calculator.js";
+import type { RacvQuoteResult } from "../utils/racv-scraper.js";
+import type { MotorcycleQuoteResult } from "../utils/motorcycle-calculator.js";
+import type { CaravanQuoteResult } from "../utils/caravan-calculator.js";
+import { getQuoteStore, isQuoteExpired, quoteExpiry, StoredQuote } from "../utils/quote-store.js";
+import { savedQuoteOutputShape } from "./output-schemas.js";
+
+function describeQuote(quote: StoredQuote): string[] {
+  if (quote.source === "live") {
+    const result = quote.result as RacvQuoteResult;
+    const lines = [`Vehicle: ${result.vehicle_description || "Unknown"}`];
+    if (result.annual_premium) {
+      lines.push(`Annual Premium: $${result.annual_premium.toLocaleString()}`);
+    }
+    if (result.monthly_premium) {
+      lines.push(`Monthly Premium: $${result.monthly_premium.toLocaleString()}/month`);
+    }
+    if (result.excess_amount) {
+      lines.push(`Standard Excess: $${result.excess_amount.toLocaleString()}`);
+    }
+    return lines;
+  }
+
+  const result = quote.result as QuoteResult | MotorcycleQuoteResult | CaravanQuoteResult;
+  let insured: string;
+  if ("product" in result && result.product === "motorcycle") {
+    const { motorcycle } = result;
+    insured = `Motorcycle: ${motorcycle.year} ${motorcycle.make} ${motorcycle.model} (${motorcycle.category})`;
+  } else if ("product" in result && result.product === "caravan") {
+    const { caravan } = result;
+    insured = `${caravan.type_label}: ${[caravan.year, caravan.make, caravan.model].filter(Boolean).join(" ")}, agreed value $${caravan.agreed_value.toLocaleString()}`;
+  } else {
+    const { vehicle } = result as QuoteResult;
+    insured = `Vehicle: ${vehicle.year} ${vehicle.make} ${vehicle.model} (${vehicle.category})`;
+  }
+  return [
+    insured,
+    `Risk zone: ${result.risk_zone}`,
+    `Annual Premium: $${result.premium_range_annual.min.toLocaleString()} – $${result.premium_range_annual.max.toLocaleString()}`,
+    `Monthly Premium: $${result.premium_range_monthly.min.toLocaleString()} – $${result.premium_range_monthly.max.toLocaleString()}/month`,
+  ];
+}
+
+export function registerGetSavedQuote(server: McpServer) {
+  server.registerTool(
+    "get_saved_quote",
+    {
+      description: "Recall a previously issued RACV car, motorcycle or caravan insurance quote by its quote ID, including the details it was based on, the premium and whether it is still valid.",
+      inputSchema: {
+        quote_id: z
+          .string()
+          .describe("The quote ID returned by get_motor_quote or one of the estimate tools (e.g. RACV-A1B2C3D4)"),
+      },
+      outputSchema: savedQuoteOutputShape,
+    },
+    async (params) => {
+      const quote = await getQuoteStore().get(params.quote_id.trim());
+
+      if (!quote) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Quote ${params.quote_id} was not found. It may have been issued by a different server or never existed.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const expired = isQuoteExpired(quote);
+      const lines = [
+        `RACV Saved Quote — ${quote.quote_id}`,
+        ``,
+        `Source: ${quote.source === "live" ? "Live quote from RACV website" : "Indicative estimate from RACV rating rules"}`,
+        `Issued: ${quote.created_at.split("T")[0]}`,
+        `Valid until: ${quoteExpiry(quote).toISOString().split("T")[0]}${expired ? " (EXPIRED)" : ""}`,
+        ``,
+        ...describeQuote(quote),
+        ``,
+        `Quote details: ${JSON.stringify(quote.input)}`,
+      ];
+
+      if (expired) {
+        lines.push(``, `This quote has expired. Please request a new quote before continuing to racv.com.au.`);
+      }
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: {
+          quote_id: quote.quote_id,
+          source: quote.source,
+          created_at: quote.created_at,
+          valid_until: quote.valid_until,
+          expired,
+          input: { ...quote.input },
+          result: { ...quote.result },
+        },
+      };
+    }
+  );
+}
@@ -0,0 +1,368 @@
+import { z } from "zod";
+import { CARAVAN_TYPES, COVER_TYPES, COVERAGE_AREAS, type CaravanType, type CoverType } from "../utils/rating-data.js";
+import { PRODUCTS, type Product } from "../utils/products.js";
+import type { QuoteResult } from "../utils/quote-calculator.js";
+import type { RacvQuoteResult } from "../utils/racv-scraper.js";
+import type { ScenarioComparison } from "../utils/quote-scenarios.js";
+import type { ResolvedAddress } from "../utils/address-parser.js";
+import type { VehicleSearchResult } from "../utils/vehicle-search.js";
+import type { PlateType } from "../utils/rego.js";
+import type { MotorcycleQuoteResult } from "../utils/motorcycle-calculator.js";
+import type { CaravanQuoteResult } from "../utils/caravan-calculator.js";
+import type { PolicyClause, PolicySearchResult } from "../utils/policy-wording.js";
+import type { QuoteFieldIssue } from "./get-motor-quote.js";
+import type { QuoteDraftStatus } from "./get-quote-draft.js";
+
+// Output schemas for tool structuredContent. These mirror the result interfaces in
+// utils/ — the type checks at the bottom of the file fail to compile if they drift.
+
+export const coverTypeSchema = z.enum(COVER_TYPES);
+export const productSchema = z.enum(PRODUCTS);
+export const caravanTypeSchema = z.enum(CARAVAN_TYPES);
+
+const premiumRangeSchema = z.object({
+  min: z.number().describe("Lower bound in AUD"),
+  max: z.number().describe("Upper bound in AUD"),
+});
+
+export const excessOptionSchema = z.object({
+  amount: z.number().describe("Excess amount in AUD"),
+  label: z.string(),
+  annual_premium: z.number().describe("Annual premium in AUD with this excess"),
+  monthly_premium: z.number().describe("Monthly premium in AUD with this excess"),
+});
+
+export const driverDetailsSchema = z.object({
+  driver_age: z.number(),
+  licence_age: z.number().optional().describe("Age the driver was first licensed"),
+  claims_last_5_years: z.number(),
+});
+
+export const driverExcessSchema = z.object({
+  type: z.enum(["age", "inexperienced"]),
+  label: z.string(),
+  amount: z.number().describe("Excess in AUD, payable on top of the standard excess"),
+  drivers: z
+    .array(z.number())
+    .optional()
+    .describe("Drivers it applies to: 0 = main driver, 1+ = additional drivers in order. Absent on live quotes"),
+});
+
+export const premiumBreakdownSchema = z.object({
+  category: z.string().describe("Vehicle rating category"),
+  base_rate: z.number().describe("Base annual rate in AUD for the category"),
+  factors: z.array(
+    z.object({
+      factor: z.enum([
+        "driver_age",
+        "riding_experience",
+        "claims",
+        "postcode",
+        "parking",
+        "usage",
+        "vehicle_age",
+        "member_discount",
+      ]),
+      label: z.string(),
+      bracket: z.string().describe("Which rule applied, e.g. 'age 21–24' or 'postcode 3000 → very_high'"),
+      multiplier: z.number(),
+      contribution: z.number().describe("AUD this factor added to the annual premium; negative is a saving"),
+      running_total: z.number().describe("Annual premium in AUD after this factor"),
+    })
+  ),
+  annual_premium: z.number().describe("Central annual premium in AUD, before the ± range and excess discounts"),
+});
+
+const vehicleSchema = z.object({
+  make: z.string(),
+  model: z.string(),
+  year: z.number(),
+  category: z.string(),
+  estimated_value: z.number(),
+  in_catalogue: z.boolean().describe("False when the car wasn't recognised and default category and value were used"),
+});
+
+export const quoteResultShape = {
+  quote_id: z.string().describe("Quote reference, e.g. RACV-A1B2C3D4"),
+  cover_type: coverTypeSchema,
+  cover_label: z.string().describe("Name of the cover, e.g. 'Third Party, Fire & Theft'"),
+  premium_range_annual: premiumRangeSchema,
+  premium_range_monthly: premiumRangeSchema,
+  excess_options: z.array(excessOptionSchema),
+  coverage_summary: z.array(z.string()),
+  member_discount_available: z.boolean(),
+  member_discount_pct: z.number(),
+  member_discount_applied: z.boolean().describe("True when the premiums already include the member discount"),
+  valid_until: z.string().describe("Last day the quote is valid (YYYY-MM-DD)"),
+  vehicle: vehicleSchema,
+  risk_zone: z.string(),
+  rated_driver: driverDetailsSchema
+    .extend({ driver: z.number().describe("0 = main driver, 1+ = additional drivers in order") })
+    .describe("The driver the premium was rated on (the highest-risk one)"),
+  driver_excesses: z.array(driverExcessSchema).describe("Age and inexperienced driver excesses"),
+  breakdown: premiumBreakdownSchema.describe("Each rating factor and what it added to the premium"),
+  pricing_version: z.string().describe("Version of the rating rules the estimate was priced with"),
+  pricing_effective_from: z.string().describe("Date that version of the rating rules took effect"),
+  warnings: z.array(z.string()).describe("Things to check with the customer, e.g. an unrecognised vehicle"),
+  disclaimers: z.array(z.string()),
+};
+
+// Fields every rating-rules estimate has, whatever the product
+const estimateCommonShape = z.object(quoteResultShape).pick({
+  quote_id: true,
+  premium_range_annual: true,
+  premium_range_monthly: true,
+  excess_options: true,
+  coverage_summary: true,
+  member_discount_available: true,
+  member_discount_pct: true,
+  member_discount_applied: true,
+  valid_until: true,
+  risk_zone: true,
+  breakdown: true,
+  pricing_version: true,
+  pricing_effective_from: true,
+  warnings: true,
+  disclaimers: true,
+}).shape;
+
+export const motorcycleQuoteResultShape = {
+  product: z.literal("motorcycle"),
+  ...estimateCommonShape,
+  motorcycle: vehicleSchema.describe("The motorcycle; category is the rating category, e.g. learner, sport, touring"),
+};
+
+export const caravanQuoteResultShape = {
+  product: z.literal("caravan"),
+  ...estimateCommonShape,
+  caravan: z.object({
+    type: caravanTypeSchema,
+    type_label: z.string(),
+    make: z.string().optional(),
+    model: z.string().optional(),
+    year: z.number(),
+    agreed_value: z.number().describe("Amount insured in AUD"),
+    in_catalogue: z.boolean().describe("True when the make and model were found in the caravan catalogue"),
+  }),
+};
+
+export const racvQuoteResultShape = {
+  success: z.boolean().describe("Whether a premium was obtained from the RACV website"),
+  product: productSchema.optional().describe("Product quoted; absent means car"),
+  cover_type: coverTypeSchema.optional().describe("Cover the premium is for"),
+  vehicle_description: z.string().optional(),
+  annual_premium: z.number().optional().describe("Annual premium in AUD"),
+  monthly_premium: z.number().optional().describe("Monthly premium in AUD"),
+  excess_amount: z.number().optional().describe("Standard excess in AUD"),
+  driver_excesses: z
+    .array(driverExcessSchema)
+    .optional()
+    .describe("Age / inexperienced driver excesses shown on the RACV quote page"),
+  raw_amounts: z.array(z.string()).optional().describe("Every dollar amount seen on the quote page"),
+  screenshot_path: z.string().optional(),
+  error: z.string().optional().describe("Why the quote could not be completed"),
+  step_reached: z.string().optional().describe("Form step the scraper reached before failing"),
+};
+
+export const providerAttemptSchema = z.object({
+  provider: z.string(),
+  error: z.string().describe("Why this provider did not produce a quote"),
+});
+
+export const quoteCacheInfoSchema = z.object({
+  hit: z.boolean().describe("True when this live result was served from the cache"),
+  cached_at: z.string().describe("When the live quote was fetched from RACV"),
+  expires_at: z.string().describe("When the cached result stops being reused"),
+});
+
+export const resolvedAddressSchema = z.object({
+  street: z.string().optional(),
+  suburb: z.string().optional(),
+  postcode: z.string().optional().describe("Absent when no postcode was given and the suburb isn't in the gazetteer"),
+  state: z.literal("VIC"),
+  formatted: z.string().describe("The address as it was given to the quote providers"),
+  risk_zone: z.string().optional(),
+  risk_zone_label: z.string().optional(),
+  verified: z.boolean().describe("True when the suburb and postcode were matched in the gazetteer"),
+  corrected_from: z.string().optional().describe("The suburb as typed, when it was corrected"),
+});
+
+const plateTypeSchema = z.enum(["standard", "custom", "personalised", "heritage", "trailer"]);
+
+const quoteFieldIssueShape = {
+  field: z.enum(["rego", "address", "driver_age", "driver_gender", "licence_age"]),
+  problem: z.enum(["missing", "invalid"]),
+  message: z.string().describe("What is wrong with the field, to show the customer"),
+  suggestions: z.array(z.string()).optional().describe("Close matches for an address that couldn't be used"),
+};
+
+// get_motor_quote returns either a live RACV result or, on fallback, a rating-rules
+// estimate; `source` says which, and the fields of the other shape are absent.
+export const getMotorQuoteOutputShape = {
+  ...racvQuoteResultShape,
+  ...z.object(quoteResultShape).partial().shape,
+  source: z
+    .enum(["live", "estimate"])
+    .optional()
+    .describe("live = price from the RACV website; estimate = indicative figure from RACV rating rules. Absent when no quote could be produced"),
+  quote_id: z.string().optional().describe("Quote reference, present when success is true"),
+  valid_until: z.string().optional().describe("When the quote expires, present when success is true"),
+  fallback_reason: z.string().optional().describe("Why the live quote was not used, when source is estimate"),
+  attempts: z.array(providerAttemptSchema).optional().describe("Providers that were tried and failed before this result"),
+  cache: quoteCacheInfoSchema.optional().describe("Cache details for live results; absent when caching is off"),
+  address: resolvedAddressSchema.optional().describe("The parsed and checked address"),
+  plate_type: plateTypeSchema
+    .optional()
+    .describe("Kind of Victorian number plate the rego was recognised as"),
+  missing_fields: z
+    .array(z.object(quoteFieldIssueShape))
+    .optional()
+    .describe("Customer details that are missing or couldn't be used; ask for these and call get_motor_quote again"),
+  elicitation: z
+    .enum(["accept", "decline", "cancel"])
+    .optional()
+    .describe("How the customer answered the form asking for missing details, when the client supports elicitation"),
+};
+
+export const quoteDraftOutputShape = {
+  fields: z.record(z.string(), z.unknown()).describe("The get_motor_quote fields collected so far"),
+  ready: z.boolean().describe("True when every detail needed for a quote is present and usable"),
+  missing_fields: z.array(z.object(quoteFieldIssueShape)).describe("Customer details still missing or unusable"),
+  estimate_fields_missing: z
+    .array(z.string())
+    .describe("Car details the estimate fallback needs when a live quote isn't possible; not needed for a live quote"),
+  rejected_fields: z
+    .array(z.object(quoteFieldIssueShape))
+    .optional()
+    .describe("Fields from this update that couldn't be used and were not saved"),
+  created_at: z.string(),
+  updated_at: z.string(),
+  last_quote_id: z.string().optional().describe("The most recent quote submitted from this draft"),
+};
+
+const scenarioPriceSchema = z.object({
+  label: z.string(),
+  cover_type: coverTypeSchema,
+  parking_type: z.enum(["garage", "carport", "street", "driveway"]),
+  excess: z.number().describe("Excess in AUD"),
+  is_racv_member: z.boolean(),
+  drivers: z.number().describe("Number of drivers on the policy"),
+  annual_premium: z.number().describe("Annual premium in AUD"),
+  monthly_premium: z.number().describe("Monthly premium in AUD"),
+  annual_delta: z.number().describe("Difference from the base in AUD per year; negative is cheaper"),
+  monthly_delta: z.number().describe("Difference from the base in AUD per month"),
+  annual_delta_pct: z.number().describe("Difference from the base as a percentage"),
+  driver_excesses: z.array(driverExcessSchema),
+});
+
+export const scenarioComparisonShape = {
+  base: scenarioPriceSchema,
+  scenarios: z.array(scenarioPriceSchema),
+  cheapest: z.string().describe("Label of the cheapest option, base included"),
+};
+
+const policyClauseShape = {
+  section: z.string().describe("PDS section number, e.g. 2.6"),
+  area: z.enum(COVERAGE_AREAS),
+  heading: z.string(),
+  text: z.string(),
+  cover_types: z.array(coverTypeSchema).describe("Covers the clause applies to"),
+  citation: z.string().describe("PDS name and section, to quote when answering"),
+};
+
+export const coverageOutputShape = {
+  product: productSchema,
+  cover_type: coverTypeSchema,
+  cover_label: z.string(),
+  area: z.string(),
+  title: z.string(),
+  details: z.array(z.string()),
+  document: z.string().describe("PDS the clauses come from"),
+  clauses: z.array(z.object(policyClauseShape)),
+};
+
+export const policySearchOutputShape = {
+  query: z.string(),
+  product: productSchema,
+  document: z.string(),
+  matches: z
+    .array(
+      z.object({
+        ...policyClauseShape,
+        score: z.number().describe("Relevance relative to the best match, which scores 1"),
+        matched_terms: z.array(z.string()).describe("Query words found in the clause"),
+      })
+    )
+    .describe("Best match first"),
+};
+
+export const startFullQuoteOutputShape = {
+  quote_id: z.string(),
+  redirect_url: z.string().describe("racv.com.au link to complete the quote"),
+  link_expires_at: z.string().describe("ISO timestamp after which the link should not be used"),
+};
+
+export const savedQuoteOutputShape = {
+  quote_id: z.string(),
+  source: z.enum(["live", "estimate"]),
+  created_at: z.string(),
+  valid_until: z.string(),
+  expired: z.boolean(),
+  input: z.record(z.unknown()).describe("Details the quote was based on"),
+  // Quotes saved before these fields were added don't have them
+  result: z.union([
+    z.object(quoteResultShape).partial({
+      rated_driver: true,
+      driver_excesses: true,
+      member_discount_applied: true,
+      breakdown: true,
+      pricing_version: true,
+      pricing_effective_from: true,
+      warnings: true,
+      cover_type: true,
+      cover_label: true,
+    }).extend({ vehicle: vehicleSchema.partial({ in_catalogue: true }) }),
+    z.object(racvQuoteResultShape),
+    z.object(motorcycleQuoteResultShape),
+    z.object(caravanQuoteResultShape),
+  ]),
+};
+
+export const explainPremiumOutputShape = {
+  quote_id: z.string().optional().describe("The saved estimate that was explained, if one was given"),
+  vehicle: z.string().describe("Year, make and model"),
+  premium_range_annual: premiumRangeSchema,
+  breakdown: premiumBreakdownSchema,
+};
+
+export const vehicleSearchOutputShape = {
+  query: z.string(),
+  year: z.number().optional().describe("Year of manufacture, when the query included one"),
+  matches: z.array(
+    z.object({
+      make: z.string().describe("Make as vehicle_make expects it"),
+      model: z.string().describe("Model as vehicle_model expects it"),
+      category: z.string().describe("Rating category, e.g. economy, midrange, premium, performance"),
+      base_value: z.number().describe("New value in AUD"),
+      score: z.number().describe("Match score from 0 to 1; 1 is an exact make and model"),
+    })
+  ).describe("Closest matches first"),
+};
+
+// Compile-time drift checks: each result interface must satisfy its schema
+type Satisfies<T extends U, U> = T;
+type _QuoteResultCheck = Satisfies<QuoteResult, z.infer<z.ZodObject<typeof quoteResultShape>>>;
+type _RacvQuoteResultCheck = Satisfies<RacvQuoteResult, z.infer<z.ZodObject<typeof racvQuoteResultShape>>>;
+type _ScenarioComparisonCheck = Satisfies<ScenarioComparison, z.infer<z.ZodObject<typeof scenarioComparisonShape>>>;
+type _QuoteFieldIssueCheck = Satisfies<QuoteFieldIssue, z.infer<z.ZodObject<typeof quoteFieldIssueShape>>>;
+type _QuoteDraftCheck = Satisfies<QuoteDraftStatus, z.infer<z.ZodObject<typeof quoteDraftOutputShape>>>;
+type _PolicyClauseCheck = Satisfies<PolicyClause, z.infer<z.ZodObject<typeof policyClauseShape>>>;
+type _PolicySearchCheck = Satisfies<PolicySearchResult, z.infer<z.ZodObject<typeof policySearchOutputShape>>>;
+type _VehicleSearchCheck = Satisfies<VehicleSearchResult, z.infer<z.ZodObject<typeof vehicleSearchOutputShape>>>;
+type _MotorcycleQuoteResultCheck = Satisfies<MotorcycleQuoteResult, z.infer<z.ZodObject<typeof motorcycleQuoteResultShape>>>;
+type _CaravanQuoteResultCheck = Satisfies<CaravanQuoteResult, z.infer<z.ZodObject<typeof caravanQuoteResultShape>>>;
+type _ProductCheck = Satisfies<Product, z.infer<typeof productSchema>>;
+type _CaravanTypeCheck = Satisfies<CaravanType, z.infer<typeof caravanTypeSchema>>;
+type _CoverTypeCheck = Satisfies<CoverType, z.infer<typeof coverTypeSchema>>;
+type _PlateTypeCheck = Satisfies<PlateType, z.infer<typeof plateTypeSchema>>;
+type _ResolvedAddressCheck = Satisfies<ResolvedAddress, z.infer<typeof resolvedAddressSchema>>;
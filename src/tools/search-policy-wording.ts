@@ -0,0 +1,73 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { COVERAGE_AREAS } from "../utils/rating-data.js";
+import { getCoverLabel } from "../utils/quote-calculator.js";
+import { getPolicyWording, searchPolicyWording, PolicyClauseMatch } from "../utils/policy-wording.js";
+import { coverTypeSchema, policySearchOutputShape, productSchema } from "./output-schemas.js";
+
+export const searchPolicyWordingSchema = {
+  query: z
+    .string()
+    .min(2)
+    .describe("The customer's question or the situation to look up, e.g. 'am I covered for hail while parked at work?' or 'hire car after theft'"),
+  product: productSchema
+    .default("car")
+    .describe("Which PDS to search: car, motorcycle or caravan (caravans and trailers)"),
+  cover_type: coverTypeSchema
+    .optional()
+    .describe("Only return clauses that apply to this level of cover. Leave out to search every cover"),
+  coverage_area: z
+    .enum(COVERAGE_AREAS)
+    .optional()
+    .describe("Only search one part of the PDS: standard_inclusions, optional_extras, exclusions, excess_options or claims_process"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .default(5)
+    .describe("Maximum number of clauses to return"),
+};
+
+function formatCovers(match: PolicyClauseMatch, allCovers: number): string {
+  if (match.cover_types.length === allCovers) return "";
+  return ` [${match.cover_types.map((coverType) => getCoverLabel(coverType)).join(", ")} only]`;
+}
+
+export function registerSearchPolicyWording(server: McpServer) {
+  server.registerTool(
+    "search_policy_wording",
+    {
+      description: "Search the RACV product disclosure statement (PDS) for car, motorcycle or caravan & trailer insurance and return the clauses that best answer a question, each with its PDS section citation. Use it for specific questions such as 'am I covered for hail while parked at work?', 'is tyre damage excluded?' or 'how much is the excess for a young driver?'. Both inclusions and exclusions can match, so read every clause returned before answering, and quote the citation. Matching is by keyword, so a clause that matches is not by itself a yes or no.",
+      inputSchema: searchPolicyWordingSchema,
+      outputSchema: policySearchOutputShape,
+    },
+    async ({ query, product, cover_type, coverage_area, limit }) => {
+      const result = searchPolicyWording(query, product, { cover_type, area: coverage_area, limit });
+      const allCovers = getPolicyWording(product).cover_types.length;
+
+      const lines = result.matches.length > 0
+        ? [
+            `${result.document} — clauses matching "${query}"${cover_type ? ` (${getCoverLabel(cover_type)})` : ""}:`,
+            ``,
+            ...result.matches.flatMap((match) => [
+              `• Section ${match.section} — ${match.heading}${formatCovers(match, allCovers)}`,
+              `  ${match.text}`,
+            ]),
+            ``,
+            `Cite the section numbers when answering. Full PDS: racv.com.au/pds`,
+            `This information is general in nature and does not constitute personal financial advice.`,
+          ]
+        : [
+            `No clauses in the ${result.document} match "${query}".`,
+            ``,
+            `Try different words (e.g. "stolen" or "windscreen"), or use get_coverage_details to list a whole area of cover.`,
+          ];
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: { ...result },
+      };
+    }
+  );
+}
@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { searchVehicles, VehicleMatch } from "../utils/vehicle-search.js";
+import { vehicleSearchOutputShape } from "./output-schemas.js";
+
+export const searchVehiclesSchema = {
+  query: z
+    .string()
+    .min(2)
+    .describe("Free-text description of the car, e.g. '2019 corolla hatch', 'hilux sr5' or 'mazda cx 5'"),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(10)
+    .default(5)
+    .describe("Maximum number of matches to return"),
+};
+
+function formatMatch(match: VehicleMatch): string {
+  return `• ${match.make} ${match.model} — ${match.category}, $${match.base_value.toLocaleString()} new (match ${Math.round(match.score * 100)}%)`;
+}
+
+export function registerSearchVehicles(server: McpServer) {
+  server.registerTool(
+    "search_vehicles",
+    {
+      description: "Look up a car in RACV's vehicle catalogue from a free-text description, e.g. '2019 corolla hatch' or 'hilux sr5'. Returns the closest makes and models with their rating category, new value and a match score from 0 to 1. Use it to get the exact vehicle_make and vehicle_model before calling estimate_motor_quote: cars that aren't in the catalogue are priced with default values.",
+      inputSchema: searchVehiclesSchema,
+      outputSchema: vehicleSearchOutputShape,
+    },
+    async ({ query, limit }) => {
+      const result = searchVehicles(query, limit);
+
+      const lines = result.matches.length > 0
+        ? [
+            `Vehicles matching "${query}":`,
+            ``,
+            ...result.matches.map(formatMatch),
+            ...(result.year ? [``, `Year of manufacture: ${result.year}`] : []),
+            ``,
+            `Use the make and model exactly as shown when requesting an estimate.`,
+          ]
+        : [
+            `No vehicles in RACV's catalogue match "${query}".`,
+            ``,
+            `Try just the make and model (e.g. "Toyota Corolla"). Estimates for cars not in the catalogue use default values and may be well off.`,
+          ];
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: { ...result },
+      };
+    }
+  );
+}
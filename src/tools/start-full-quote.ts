@@ -1,38 +1,66 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getQuoteStore, isQuoteExpired, quoteExpiry, quoteProduct } from "../utils/quote-store.js";
+import { PRODUCT_INFO } from "../utils/products.js";
+import { startFullQuoteOutputShape } from "./output-schemas.js";
 
-const activeQuotes = new Map<string, any>();
-
-export function storeQuote(quoteId: string, data: any) {
-  activeQuotes.set(quoteId, data);
-}
+const LINK_VALID_HOURS = 24;
 
 export function registerStartFullQuote(server: McpServer) {
-  server.tool(
+  server.registerTool(
     "start_full_quote",
-    "Generate a link to complete a full bindable quote on racv.com.au with pre-populated details from the conversation. The user will be redirected to RACV's website to finalise and purchase their policy.",
     {
-      quote_id: z
-        .string()
-        .describe(
-          "The quote ID from a previous get_motor_quote result (e.g. RACV-A1B2C3D4)"
-        ),
+      description: "Generate a link to complete a full bindable quote on racv.com.au with pre-populated details from the conversation. The user will be redirected to RACV's website to finalise and purchase their policy.",
+      inputSchema: {
+        quote_id: z
+          .string()
+          .describe(
+            "The quote ID from a previous get_motor_quote or estimate_motor_quote result (e.g. RACV-A1B2C3D4)"
+          ),
+      },
+      outputSchema: startFullQuoteOutputShape,
     },
     async (params) => {
-      const baseUrl = "https://www.racv.com.au/car-insurance/get-a-quote.html";
+      const quote = await getQuoteStore().get(params.quote_id.trim());
+
+      if (!quote) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Quote ${params.quote_id} was not found. Get a new quote with get_motor_quote or estimate_motor_quote first, then use the quote ID it returns.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      if (isQuoteExpired(quote)) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Quote ${quote.quote_id} expired on ${quoteExpiry(quote).toISOString().split("T")[0]}. Please get a new quote before continuing to racv.com.au.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const baseUrl = PRODUCT_INFO[quoteProduct(quote)].full_quote_url;
 
       const utmParams = new URLSearchParams({
         utm_source: "ai_platform",
         utm_medium: "mcp_app",
         utm_campaign: "racv_insurance_app",
         utm_content: "get_full_quote",
-        ref: params.quote_id,
+        ref: quote.quote_id,
       });
 
       const redirectUrl = `${baseUrl}?${utmParams.toString()}`;
 
-      const validUntil = new Date();
-      validUntil.setHours(validUntil.getHours() + 24);
+      const linkExpiresAt = new Date();
+      linkExpiresAt.setHours(linkExpiresAt.getHours() + LINK_VALID_HOURS);
 
       const text = [
         `Ready to get your full RACV insurance quote!`,
@@ -45,8 +73,8 @@ export function registerStartFullQuote(server: McpServer) {
         ``,
         `🔗 Complete your quote: ${redirectUrl}`,
         ``,
-        `Reference: ${params.quote_id}`,
-        `This link is valid for 24 hours.`,
+        `Reference: ${quote.quote_id}`,
+        `This link is valid for ${LINK_VALID_HOURS} hours.`,
         ``,
         `Note: The indicative quote provided in this conversation is not a binding offer.`,
         `Your final premium may differ based on the full information provided during the application.`,
@@ -54,6 +82,11 @@ export function registerStartFullQuote(server: McpServer) {
 
       return {
         content: [{ type: "text", text }],
+        structuredContent: {
+          quote_id: quote.quote_id,
+          redirect_url: redirectUrl,
+          link_expires_at: linkExpiresAt.toISOString(),
+        },
       };
     }
   );
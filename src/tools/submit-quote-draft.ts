@@ -0,0 +1,57 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { QUOTE_WIDGET_URI, widgetMeta } from "../resources/widgets.js";
+import { getQuoteDraftStore, loadQuoteDraft } from "../utils/quote-drafts.js";
+import { collectQuoteFields, CUSTOMER_FIELDS, needsMoreInfoResult, quoteMotor } from "./get-motor-quote.js";
+import { draftInput, draftSessionId } from "./get-quote-draft.js";
+import { getMotorQuoteOutputShape } from "./output-schemas.js";
+
+export function registerSubmitQuoteDraft(server: McpServer) {
+  server.registerTool(
+    "submit_quote_draft",
+    {
+      description: "Quote the details collected in this conversation's draft (see update_quote_draft). Works exactly like get_motor_quote: a live RACV quote first, falling back to an indicative estimate from the rating rules when the draft has the vehicle make, model and year. If details are still missing the customer is asked for them where the client supports it; otherwise the result lists them. The draft is kept, so it can be changed and submitted again.",
+      inputSchema: {
+        force_refresh: z
+          .boolean()
+          .optional()
+          .describe("Re-run the live RACV quote even if an identical one was fetched recently. Only set this when the user asks for a fresh price"),
+      },
+      outputSchema: getMotorQuoteOutputShape,
+      _meta: widgetMeta(QUOTE_WIDGET_URI),
+    },
+    async ({ force_refresh }, extra) => {
+      const draft = await loadQuoteDraft(draftSessionId(extra));
+      if (Object.keys(draft.fields).length === 0) {
+        return {
+          content: [{ type: "text", text: `There is no quote draft in this conversation yet. Add the customer's details with update_quote_draft first.` }],
+          isError: true,
+        };
+      }
+
+      const { check, elicitation } = await collectQuoteFields(server, { ...draftInput(draft.fields), force_refresh }, extra);
+      if (!check.ok) {
+        return needsMoreInfoResult(check.issues, elicitation, "add them with update_quote_draft and call submit_quote_draft again");
+      }
+
+      const result = await quoteMotor(server, check, extra);
+      const quoteId = result.structuredContent?.quote_id;
+
+      // Applied to the draft as it is now, not as it was read: it may have been updated while the quote ran.
+      // Keep anything the customer filled in through elicitation, so a resubmit doesn't ask again
+      await getQuoteDraftStore().update(draft.session_id, (current) => {
+        const fields = { ...current.fields };
+        for (const field of CUSTOMER_FIELDS) {
+          if (fields[field] === undefined) Object.assign(fields, { [field]: check.params[field] });
+        }
+        return {
+          ...current,
+          fields,
+          updated_at: new Date().toISOString(),
+          last_quote_id: typeof quoteId === "string" ? quoteId : current.last_quote_id,
+        };
+      });
+      return result;
+    }
+  );
+}
@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getQuoteDraftStore, QuoteDraftFields } from "../utils/quote-drafts.js";
+import { checkQuoteFields, getMotorQuoteInputSchema, QuoteFieldIssue } from "./get-motor-quote.js";
+import { draftInput, draftSessionId, formatDraftLines, quoteDraftStatus } from "./get-quote-draft.js";
+import { quoteDraftOutputShape } from "./output-schemas.js";
+
+// Every get_motor_quote field, none required and none defaulted, so an update only
+// touches the fields it names
+const draftFieldsSchema = z.object(getMotorQuoteInputSchema).omit({ force_refresh: true }).partial();
+
+export const updateQuoteDraftSchema = {
+  ...draftFieldsSchema.shape,
+  clear_fields: z
+    .array(draftFieldsSchema.keyof())
+    .optional()
+    .describe("Fields to remove from the draft, e.g. ['additional_drivers'] when the customer changes their mind"),
+};
+
+export function registerUpdateQuoteDraft(server: McpServer) {
+  server.registerTool(
+    "update_quote_draft",
+    {
+      description: "Add motor quote details to this conversation's draft as the customer gives them, instead of collecting everything before calling get_motor_quote. Send only the fields you have just learned; earlier ones are kept. Each field is checked as it arrives — a rego, address or age that can't be used is rejected and the reason returned — and the reply lists what is still needed. When the draft is ready, call submit_quote_draft.",
+      inputSchema: updateQuoteDraftSchema,
+      outputSchema: quoteDraftOutputShape,
+    },
+    async ({ clear_fields, ...update }, extra) => {
+      const given = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined)) as QuoteDraftFields;
+
+      let rejected: QuoteFieldIssue[] = [];
+      const saved = await getQuoteDraftStore().update(draftSessionId(extra), (draft) => {
+        const fields: QuoteDraftFields = { ...draft.fields };
+        for (const field of clear_fields ?? []) delete fields[field];
+        Object.assign(fields, given);
+
+        // Keep the previous value of any field that arrived unusable; the reason goes back to the model
+        const check = checkQuoteFields(draftInput(fields));
+        rejected = check.ok ? [] : check.issues.filter((issue) => issue.problem === "invalid" && issue.field in given);
+        for (const { field } of rejected) {
+          if (field in draft.fields) {
+            Object.assign(fields, { [field]: draft.fields[field] });
+          } else {
+            delete fields[field];
+          }
+        }
+        return { ...draft, fields, updated_at: new Date().toISOString() };
+      });
+      const status = quoteDraftStatus(saved);
+
+      const accepted = Object.keys(given).filter((field) => !rejected.some((issue) => issue.field === field));
+      const lines = [
+        accepted.length > 0 || clear_fields?.length
+          ? `Quote draft updated${accepted.length > 0 ? `: ${accepted.join(", ")}` : ""}${clear_fields?.length ? `; cleared ${clear_fields.join(", ")}` : ""}.`
+          : `Quote draft unchanged.`,
+      ];
+      if (rejected.length > 0) {
+        lines.push(``, `Not saved:`, ...rejected.map((issue) => `• ${issue.message} (${issue.field})`));
+      }
+      lines.push(``, ...formatDraftLines(status));
+
+      return {
+        content: [{ type: "text", text: lines.join("\n") }],
+        structuredContent: { ...status, rejected_fields: rejected },
+      };
+    }
+  );
+}
@@ -0,0 +1,274 @@
+import { getRatingData } from "./rating-data.js";
+import { getPostcodeRiskZone, isVictorianPostcode } from "./quote-calculator.js";
+import { editDistance } from "./fuzzy.js";
+
+/**
+ * Splits a free-text address into street, suburb, state and postcode and checks
+ * it against the suburbs.json gazetteer, so a misspelled suburb or a non-Victorian
+ * address is caught (with "did you mean" suggestions) before a quote is attempted.
+ */
+
+export const STREET_TYPES: Record<string, string> = {
+  st: "street",
+  rd: "road",
+  ave: "avenue",
+  av: "avenue",
+  dr: "drive",
+  ct: "court",
+  cres: "crescent",
+  pl: "place",
+  hwy: "highway",
+  pde: "parade",
+  tce: "terrace",
+  bvd: "boulevard",
+  blvd: "boulevard",
+  cl: "close",
+  ln: "lane",
+  gr: "grove",
+};
+
+const STREET_TYPE_WORDS = new Set([...Object.keys(STREET_TYPES), ...Object.values(STREET_TYPES), "way", "walk", "square"]);
+
+const STATES: Record<string, string> = {
+  vic: "VIC",
+  victoria: "VIC",
+  nsw: "NSW",
+  "new south wales": "NSW",
+  qld: "QLD",
+  queensland: "QLD",
+  sa: "SA",
+  "south australia": "SA",
+  wa: "WA",
+  "western australia": "WA",
+  tas: "TAS",
+  tasmania: "TAS",
+  nt: "NT",
+  "northern territory": "NT",
+  act: "ACT",
+};
+
+const STATE_PATTERN = new RegExp(`[\\s,]+(${Object.keys(STATES).join("|")})\\.?$`, "i");
+
+// Longest suburb name in the gazetteer is three words ("St Kilda East")
+const MAX_SUBURB_WORDS = 3;
+const MAX_SUGGESTIONS = 5;
+
+export interface ParsedAddress {
+  /** e.g. "80 Bourke Street"; absent when only a suburb and/or postcode was given. */
+  street?: string;
+  /** As typed. */
+  suburb?: string;
+  /** Abbreviation, e.g. "VIC", when the address names a state. */
+  state?: string;
+  postcode?: string;
+}
+
+export interface GazetteerEntry {
+  suburb: string;
+  postcode: string;
+}
+
+export interface ResolvedAddress {
+  street?: string;
+  /** Gazetteer spelling when the suburb was recognised, otherwise as typed. */
+  suburb?: string;
+  /** Absent when no postcode was given and the suburb isn't in the gazetteer. */
+  postcode?: string;
+  state: "VIC";
+  /** e.g. "80 Bourke Street, Melbourne VIC 3000" */
+  formatted: string;
+  /** Absent without a postcode. */
+  risk_zone?: string;
+  risk_zone_label?: string;
+  /** True when the suburb and postcode were matched in the gazetteer. */
+  verified: boolean;
+  /** The suburb as typed, when it was corrected to a close gazetteer match with the same postcode. */
+  corrected_from?: string;
+}
+
+export type AddressProblem = "incomplete" | "not_victorian" | "unknown_suburb" | "ambiguous" | "postcode_mismatch";
+
+export type AddressResolution =
+  | { ok: true; address: ResolvedAddress }
+  | { ok: false; problem: AddressProblem; message: string; suggestions: GazetteerEntry[]; parsed: ParsedAddress };
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase().replace(/[^a-z]/g, "") === b.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function findSuburbs(name: string): GazetteerEntry[] {
+  return getRatingData().suburbs.suburbs.filter((entry) => sameName(entry.suburb, name));
+}
+
+export function formatGazetteerEntry(entry: GazetteerEntry): string {
+  return `${entry.suburb} VIC ${entry.postcode}`;
+}
+
+/** "80 Bourke St, Melbourne VIC 3000", "80 bourke st melbourne" and "Richmond 3121" all parse. */
+export function parseAddress(text: string): ParsedAddress {
+  let rest = text.trim().replace(/\s+/g, " ").replace(/[\s,]*\baustralia$/i, "");
+  const parsed: ParsedAddress = {};
+
+  const postcode = rest.match(/(?:^|[\s,]+)(\d{4})$/);
+  if (postcode) {
+    parsed.postcode = postcode[1];
+    rest = rest.slice(0, postcode.index);
+  }
+  const state = rest.match(STATE_PATTERN);
+  if (state) {
+    parsed.state = STATES[state[1].toLowerCase()];
+    rest = rest.slice(0, state.index);
+  }
+  rest = rest.replace(/[\s,]+$/, "");
+  if (!rest) return parsed;
+
+  const parts = rest.split(",").map((part) => part.trim()).filter(Boolean);
+  if (parts.length > 1) {
+    parsed.suburb = parts.pop();
+    parsed.street = parts.join(", ");
+    return parsed;
+  }
+
+  const words = rest.split(" ");
+
+  // A known suburb at the end wins, so "12 Acland St St Kilda" isn't split after the second "St"
+  for (let n = Math.min(MAX_SUBURB_WORDS, words.length); n >= 1; n--) {
+    const candidate = words.slice(-n).join(" ");
+    if (findSuburbs(candidate).length > 0) {
+      parsed.suburb = candidate;
+      if (n < words.length) parsed.street = words.slice(0, -n).join(" ");
+      return parsed;
+    }
+  }
+
+  // Otherwise split after the last street type ("Street", "Rd", ...)
+  let streetEnd = -1;
+  words.forEach((word, i) => {
+    if (i > 0 && STREET_TYPE_WORDS.has(word.toLowerCase().replace(/\.$/, ""))) streetEnd = i;
+  });
+  if (streetEnd >= 0) {
+    parsed.street = words.slice(0, streetEnd + 1).join(" ");
+    if (streetEnd < words.length - 1) parsed.suburb = words.slice(streetEnd + 1).join(" ");
+  } else if (/\d/.test(words[0])) {
+    parsed.street = rest;
+  } else {
+    parsed.suburb = rest;
+  }
+  return parsed;
+}
+
+/** Gazetteer entries whose name is close to (or starts with) `name`, closest first. */
+export function suggestSuburbs(name: string, limit = MAX_SUGGESTIONS): GazetteerEntry[] {
+  const query = name.toLowerCase().trim();
+  const tolerance = query.length <= 4 ? 1 : 2;
+
+  return getRatingData()
+    .suburbs.suburbs.map((entry) => {
+      const suburb = entry.suburb.toLowerCase();
+      const distance = query.length >= 3 && suburb.startsWith(query) ? 0 : editDistance(query, suburb);
+      return { entry, distance };
+    })
+    .filter(({ distance }) => distance <= tolerance)
+    .sort((a, b) => a.distance - b.distance || a.entry.suburb.localeCompare(b.entry.suburb))
+    .slice(0, limit)
+    .map(({ entry }) => entry);
+}
+
+function resolved(
+  parsed: ParsedAddress,
+  suburb: string | undefined,
+  postcode: string | undefined,
+  verified: boolean,
+  correctedFrom?: string
+): AddressResolution {
+  const zone = postcode ? getPostcodeRiskZone(postcode) : undefined;
+  const place = [suburb, "VIC", postcode].filter(Boolean).join(" ");
+  return {
+    ok: true,
+    address: {
+      street: parsed.street,
+      suburb,
+      postcode,
+      state: "VIC",
+      formatted: parsed.street ? `${parsed.street}, ${place}` : place,
+      risk_zone: zone,
+      risk_zone_label: zone ? getRatingData().postcodes.risk_zones[zone].label : undefined,
+      verified,
+      corrected_from: correctedFrom,
+    },
+  };
+}
+
+/**
+ * Parse `text` and check it describes a place in Victoria. A separately supplied
+ * postcode (e.g. get_motor_quote's `postcode` field) must agree with the address.
+ * A suburb missing from the gazetteer is only rejected when it looks like a
+ * misspelling of one that isn't; otherwise it is resolved with verified: false.
+ */
+export function resolveAddress(text: string, options: { postcode?: string } = {}): AddressResolution {
+  const parsed = parseAddress(text);
+  const fail = (problem: AddressProblem, message: string, suggestions: GazetteerEntry[] = []): AddressResolution => ({
+    ok: false,
+    problem,
+    message,
+    suggestions: suggestions.slice(0, MAX_SUGGESTIONS),
+    parsed,
+  });
+
+  if (parsed.postcode && options.postcode && parsed.postcode !== options.postcode) {
+    return fail(
+      "postcode_mismatch",
+      `The address has postcode ${parsed.postcode} but postcode ${options.postcode} was also given`
+    );
+  }
+  const postcode = parsed.postcode ?? options.postcode;
+
+  if (parsed.state && parsed.state !== "VIC") {
+    return fail("not_victorian", `The address is in ${parsed.state}. RACV motor insurance is for cars kept in Victoria`);
+  }
+  if (postcode && !isVictorianPostcode(postcode)) {
+    return fail("not_victorian", `Postcode ${postcode} is not a Victorian postcode (they start with 3)`);
+  }
+
+  if (!parsed.suburb) {
+    if (!postcode) {
+      return fail("incomplete", `Could not find a suburb or postcode in "${text}". Include both, e.g. "80 Bourke Street, Melbourne VIC 3000"`);
+    }
+    const here = getRatingData().suburbs.suburbs.filter((entry) => entry.postcode === postcode);
+    return resolved(parsed, here.length === 1 ? here[0].suburb : undefined, postcode, false);
+  }
+
+  const exact = findSuburbs(parsed.suburb);
+  if (exact.length > 0) {
+    if (postcode) {
+      const match = exact.find((entry) => entry.postcode === postcode);
+      if (match) return resolved(parsed, match.suburb, postcode, true);
+      const samePostcode = getRatingData().suburbs.suburbs.filter((entry) => entry.postcode === postcode);
+      return fail(
+        "postcode_mismatch",
+        `${exact[0].suburb} is postcode ${exact.map((entry) => entry.postcode).join(" or ")}, not ${postcode}`,
+        [...exact, ...samePostcode]
+      );
+    }
+    if (exact.length === 1) return resolved(parsed, exact[0].suburb, exact[0].postcode, true);
+    return fail(
+      "ambiguous",
+      `There are ${exact.length} places called ${exact[0].suburb} in Victoria. Add the postcode to say which one`,
+      exact
+    );
+  }
+
+  const close = suggestSuburbs(parsed.suburb);
+  if (postcode) {
+    const corrected = close.find((entry) => entry.postcode === postcode);
+    if (corrected) return resolved(parsed, corrected.suburb, postcode, true, parsed.suburb);
+    // The gazetteer isn't every Victorian locality, so a valid postcode is enough
+    return resolved(parsed, parsed.suburb, postcode, false);
+  }
+  // Only a likely misspelling is worth asking about; otherwise the suburb is probably one
+  // of the many the gazetteer doesn't list, and the RACV address lookup can place it
+  if (close.length > 0) {
+    return fail("unknown_suburb", `"${parsed.suburb}" is not a Victorian suburb we recognise`, close);
+  }
+  return resolved(parsed, parsed.suburb, undefined, false);
+}
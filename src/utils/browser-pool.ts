@@ -0,0 +1,216 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from "playwright";
+import { envInt } from "./env.js";
+
+/**
+ * Shared Chromium for live scraping. One browser process is kept alive and each
+ * quote gets its own context; at most `maxContexts` run at once and the rest wait
+ * in a FIFO queue. The browser is closed after sitting idle and relaunched on the
+ * next request if it crashes.
+ */
+
+export interface BrowserPoolOptions {
+  headless: boolean;
+  slowMo: number;
+  /** Contexts (i.e. concurrent quotes) allowed at once. */
+  maxContexts: number;
+  /** Close the browser after this long with nothing running. 0 keeps it open. */
+  idleShutdownMs: number;
+  /** Give up waiting for a free slot after this long. 0 waits forever. */
+  queueTimeoutMs: number;
+}
+
+export interface AcquireOptions {
+  /** Called with the 1-based queue position whenever it changes while waiting. */
+  onQueued?: (position: number) => void;
+  contextOptions?: BrowserContextOptions;
+}
+
+export interface BrowserLease {
+  browser: Browser;
+  context: BrowserContext;
+  /** Close the context and hand the slot to the next waiter. Safe to call twice. */
+  release(): Promise<void>;
+}
+
+export interface BrowserPoolStats {
+  active: number;
+  queued: number;
+  maxContexts: number;
+  browserRunning: boolean;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  onQueued?: (position: number) => void;
+  timer?: NodeJS.Timeout;
+}
+
+export function browserPoolOptionsFromEnv(): BrowserPoolOptions {
+  return {
+    headless: process.env.RACV_HEADLESS === "true",
+    slowMo: envInt("RACV_SLOW_MO", 100),
+    maxContexts: Math.max(1, envInt("RACV_MAX_CONTEXTS", 2)),
+    idleShutdownMs: envInt("RACV_BROWSER_IDLE_MS", 60_000),
+    queueTimeoutMs: envInt("RACV_QUEUE_TIMEOUT_MS", 120_000),
+  };
+}
+
+export class BrowserPool {
+  private browser: Browser | null = null;
+  private launching: Promise<Browser> | null = null;
+  private active = 0;
+  private queue: Waiter[] = [];
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly options: BrowserPoolOptions) {}
+
+  async acquire(options: AcquireOptions = {}): Promise<BrowserLease> {
+    await this.reserveSlot(options.onQueued);
+
+    let context: BrowserContext;
+    let browser: Browser;
+    try {
+      browser = await this.getBrowser();
+      context = await browser.newContext(options.contextOptions);
+    } catch (error) {
+      this.releaseSlot();
+      throw error;
+    }
+
+    let released = false;
+    return {
+      browser,
+      context,
+      release: async () => {
+        if (released) return;
+        released = true;
+        await context.close().catch(() => {});
+        this.releaseSlot();
+      },
+    };
+  }
+
+  stats(): BrowserPoolStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      maxContexts: this.options.maxContexts,
+      browserRunning: this.browser?.isConnected() ?? false,
+    };
+  }
+
+  /** Reject everyone still queued and close the browser. The pool can be reused afterwards. */
+  async shutdown(): Promise<void> {
+    this.clearIdleTimer();
+    for (const waiter of this.queue.splice(0)) {
+      if (waiter.timer) clearTimeout(waiter.timer);
+      waiter.reject(new Error("The browser pool is shutting down"));
+    }
+    await this.closeBrowser();
+  }
+
+  private reserveSlot(onQueued?: (position: number) => void): Promise<void> {
+    this.clearIdleTimer();
+    if (this.active < this.options.maxContexts && this.queue.length === 0) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, onQueued };
+      if (this.options.queueTimeoutMs > 0) {
+        waiter.timer = setTimeout(() => {
+          this.queue = this.queue.filter((w) => w !== waiter);
+          this.notifyPositions();
+          reject(new Error(
+            `Timed out after ${Math.round(this.options.queueTimeoutMs / 1000)}s waiting for a free browser ` +
+            `(${this.active} quotes already running)`
+          ));
+        }, this.options.queueTimeoutMs);
+      }
+      this.queue.push(waiter);
+      onQueued?.(this.queue.length);
+    });
+  }
+
+  private releaseSlot(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // The slot passes straight to the next waiter, so `active` is unchanged
+      if (next.timer) clearTimeout(next.timer);
+      this.notifyPositions();
+      next.resolve();
+      return;
+    }
+
+    this.active = Math.max(0, this.active - 1);
+    if (this.active === 0) this.scheduleIdleShutdown();
+  }
+
+  private notifyPositions(): void {
+    this.queue.forEach((waiter, i) => waiter.onQueued?.(i + 1));
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) return this.browser;
+    if (this.launching) return this.launching;
+
+    this.launching = chromium
+      .launch({ headless: this.options.headless, slowMo: this.options.slowMo })
+      .then((browser) => {
+        browser.on("disconnected", () => {
+          if (this.browser !== browser) return;
+          this.browser = null;
+          if (this.active > 0) {
+            console.error("[RACV] Browser disconnected mid-quote; it will be relaunched for the next request");
+          }
+        });
+        this.browser = browser;
+        return browser;
+      })
+      .finally(() => {
+        this.launching = null;
+      });
+    return this.launching;
+  }
+
+  private scheduleIdleShutdown(): void {
+    if (this.options.idleShutdownMs <= 0 || !this.browser) return;
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (this.active === 0 && this.queue.length === 0) {
+        console.error("[RACV] Closing idle browser");
+        this.closeBrowser().catch(() => {});
+      }
+    }, this.options.idleShutdownMs);
+    // Don't keep the process alive just to close the browser
+    this.idleTimer.unref();
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private async closeBrowser(): Promise<void> {
+    const browser = this.browser ?? (await this.launching?.catch(() => null)) ?? null;
+    this.browser = null;
+    if (browser) await browser.close().catch(() => {});
+  }
+}
+
+let pool: BrowserPool | null = null;
+
+export function getBrowserPool(): BrowserPool {
+  if (!pool) pool = new BrowserPool(browserPoolOptionsFromEnv());
+  return pool;
+}
+
+/** Shut the shared pool down if it was ever started. */
+export async function shutdownBrowserPool(): Promise<void> {
+  if (pool) await pool.shutdown();
+}
@@ -0,0 +1,191 @@
+import { randomUUID } from "crypto";
+import { getRatingData, CaravanType } from "./rating-data.js";
+import {
+  buildBreakdown,
+  depreciate,
+  findInCatalogue,
+  getPostcodeRiskZone,
+  pricePremium,
+  quoteValidUntil,
+  QuoteResult,
+} from "./quote-calculator.js";
+
+// Caravan and trailer estimates are priced on the agreed value: a percentage of it
+// by type (with a minimum premium), then usage, storage, postcode and claims.
+// Rules are in caravan-rules.json; caravans.json lists common caravans and campers
+// so their value can be looked up. Trailers and floats need an agreed value.
+
+export interface CaravanQuoteInput {
+  /** Required unless make and model are found in caravans.json. */
+  caravan_type?: CaravanType;
+  make?: string;
+  model?: string;
+  year: number;
+  /** Amount insured. Defaults to the catalogue value, depreciated for age. */
+  agreed_value?: number;
+  postcode: string;
+  usage: "touring" | "on_site";
+  storage: "garage" | "carport" | "driveway" | "storage_facility" | "street";
+  claims_last_5_years: number;
+  is_racv_member?: boolean;
+}
+
+export interface CaravanQuoteResult
+  extends Pick<
+    QuoteResult,
+    | "quote_id"
+    | "premium_range_annual"
+    | "premium_range_monthly"
+    | "excess_options"
+    | "coverage_summary"
+    | "member_discount_available"
+    | "member_discount_pct"
+    | "member_discount_applied"
+    | "valid_until"
+    | "risk_zone"
+    | "breakdown"
+    | "pricing_version"
+    | "pricing_effective_from"
+    | "warnings"
+    | "disclaimers"
+  > {
+  product: "caravan";
+  caravan: {
+    type: CaravanType;
+    /** e.g. "Pop-top caravan" */
+    type_label: string;
+    make?: string;
+    model?: string;
+    year: number;
+    agreed_value: number;
+    /** True when the make and model were found in caravans.json. */
+    in_catalogue: boolean;
+  };
+}
+
+function catalogueEntry(input: CaravanQuoteInput) {
+  if (!input.make || !input.model) return null;
+  return findInCatalogue(getRatingData().caravans, input.make, input.model);
+}
+
+/**
+ * Problems that stop the caravan from being priced (no type or value to go on, a
+ * value outside the insurable range), or an empty list.
+ */
+export function checkCaravanInput(input: CaravanQuoteInput): string[] {
+  const { caravanRules } = getRatingData();
+  const entry = catalogueEntry(input);
+  const problems: string[] = [];
+
+  if (!entry) {
+    const missing = [
+      ...(input.caravan_type ? [] : ["caravan_type"]),
+      ...(input.agreed_value === undefined ? ["agreed_value"] : []),
+    ];
+    if (missing.length > 0) {
+      problems.push(
+        input.make && input.model
+          ? `The ${input.make} ${input.model} is not in RACV's caravan catalogue, so give its ${missing.join(" and ")}`
+          : `Give the ${missing.join(" and ")}, or a make and model from RACV's caravan catalogue`
+      );
+    }
+  }
+  const { min, max } = caravanRules.agreed_value;
+  if (input.agreed_value !== undefined && (input.agreed_value < min || input.agreed_value > max)) {
+    problems.push(`Agreed value must be between $${min.toLocaleString()} and $${max.toLocaleString()}`);
+  }
+  return problems;
+}
+
+/** Price a caravan or trailer. Call checkCaravanInput first. */
+export function calculateCaravanQuote(input: CaravanQuoteInput): CaravanQuoteResult {
+  const { caravanRules: rules } = getRatingData();
+  const entry = catalogueEntry(input);
+  const type = entry?.type ?? input.caravan_type!;
+  const typeRule = rules.types[type];
+  const agreedValue = input.agreed_value ?? depreciate(entry!.base_value, input.year, rules.depreciation_pct / 100);
+
+  const warnings: string[] = [];
+  if (entry && input.caravan_type && input.caravan_type !== entry.type) {
+    warnings.push(
+      `The ${input.make} ${input.model} is a ${rules.types[entry.type].label.toLowerCase()}, so it was priced as one rather than as a ${rules.types[input.caravan_type].label.toLowerCase()}.`
+    );
+  }
+  if (entry && input.agreed_value === undefined) {
+    warnings.push(
+      `No agreed value was given, so $${agreedValue.toLocaleString()} was used (the catalogue price less ${rules.depreciation_pct}% a year). Check it against what the ${input.make} ${input.model} is worth.`
+    );
+  }
+
+  const claimsMultiplier = rules.claims_multipliers[String(input.claims_last_5_years)];
+  if (claimsMultiplier === undefined) throw new RangeError(`No claims multiplier for ${input.claims_last_5_years} claims`);
+  const riskZone = getPostcodeRiskZone(input.postcode);
+
+  const baseRate = Math.max(typeRule.min_premium, (agreedValue * typeRule.rate_pct) / 100);
+  const breakdown = buildBreakdown(type, baseRate, [
+    {
+      factor: "usage",
+      label: "Usage",
+      bracket: input.usage === "on_site" ? "kept on site" : "touring",
+      multiplier: rules.usage_multipliers[input.usage],
+    },
+    {
+      factor: "parking",
+      label: "Storage",
+      bracket: input.storage.replace(/_/g, " "),
+      multiplier: rules.storage_multipliers[input.storage],
+    },
+    {
+      factor: "postcode",
+      label: "Postcode risk",
+      bracket: `postcode ${input.postcode} → ${riskZone}`,
+      multiplier: rules.postcode_risk_multipliers[riskZone],
+    },
+    {
+      factor: "claims",
+      label: "Claims history",
+      bracket: `${input.claims_last_5_years} claim${input.claims_last_5_years === 1 ? "" : "s"} in 5 years`,
+      multiplier: claimsMultiplier,
+    },
+    ...(input.is_racv_member
+      ? [{
+          factor: "member_discount" as const,
+          label: "RACV member discount",
+          bracket: `${rules.member_discount_pct}% off`,
+          multiplier: 1 - rules.member_discount_pct / 100,
+        }]
+      : []),
+  ]);
+
+  return {
+    product: "caravan",
+    quote_id: `RACV-${randomUUID().slice(0, 8).toUpperCase()}`,
+    ...pricePremium(breakdown.annual_premium, rules),
+    coverage_summary: rules.coverage_highlights,
+    member_discount_available: true,
+    member_discount_pct: rules.member_discount_pct,
+    member_discount_applied: Boolean(input.is_racv_member),
+    valid_until: quoteValidUntil(),
+    caravan: {
+      type,
+      type_label: typeRule.label,
+      make: input.make,
+      model: input.model,
+      year: input.year,
+      agreed_value: agreedValue,
+      in_catalogue: entry !== null,
+    },
+    risk_zone: riskZone,
+    breakdown,
+    pricing_version: rules.version,
+    pricing_effective_from: rules.effective_from,
+    warnings,
+    disclaimers: [
+      "This is an indicative quote only and is not a binding offer of insurance.",
+      "Final premium will be determined upon completion of a full application on racv.com.au.",
+      "RACV Caravan & Trailer Insurance is issued by Insurance Manufacturers of Australia Pty Ltd (IMA) ABN 93 004 208 084, AFS Licence No. 227678.",
+      "Please refer to the Product Disclosure Statement (PDS) for full terms, conditions and exclusions at racv.com.au/pds.",
+      "This information is general in nature and does not constitute personal financial advice.",
+    ],
+  };
+}
@@ -0,0 +1,5 @@
+/** A whole-number setting from the environment; unset, non-numeric or negative values give `fallback`. */
+export function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
@@ -0,0 +1,195 @@
+import { randomUUID } from "crypto";
+import { resolve } from "path";
+import type { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { readJsonRecords, writeJsonRecords } from "./json-file.js";
+
+/**
+ * Event stores for resumable Streamable HTTP sessions. Every message the server
+ * sends on an SSE stream is recorded first, so a client whose stream drops (say,
+ * a minute into a live quote) can reconnect with Last-Event-ID and receive what it
+ * missed. Events are kept per session: stream IDs are only unique within one (every
+ * session's standalone GET stream is "_GET_stream"), so each transport gets its own
+ * view from forSession() and can never replay another session's events.
+ */
+
+/** Recorded SSE events of every HTTP session. */
+export interface SessionEventStore {
+  /** The EventStore to give the session's transport. */
+  forSession(sessionId: string): EventStore;
+  /** Forget a session's events once it has ended. */
+  deleteSession(sessionId: string): Promise<void>;
+}
+
+interface StoredEvent {
+  event_id: EventId;
+  session_id: string;
+  stream_id: StreamId;
+  message: JSONRPCMessage;
+  stored_at: number;
+}
+
+export interface EventStoreOptions {
+  /** Oldest events are dropped beyond this many. */
+  maxEvents?: number;
+  /** Events older than this are dropped; a client that has been gone longer can't resume. */
+  maxAgeMs?: number;
+}
+
+const DEFAULT_MAX_EVENTS = 5000;
+const DEFAULT_MAX_AGE_MS = 60 * 60 * 1000;
+
+export class MemoryEventStore implements SessionEventStore {
+  // Insertion order is the order the events were sent in
+  protected events = new Map<EventId, StoredEvent>();
+  private readonly maxEvents: number;
+  private readonly maxAgeMs: number;
+
+  constructor(options: EventStoreOptions = {}) {
+    this.maxEvents = options.maxEvents ?? DEFAULT_MAX_EVENTS;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  }
+
+  forSession(sessionId: string): EventStore {
+    return {
+      storeEvent: (streamId, message) => this.storeEvent(sessionId, streamId, message),
+      getStreamIdForEventId: async (eventId) => this.findEvent(sessionId, eventId)?.stream_id,
+      replayEventsAfter: (lastEventId, { send }) => this.replayEventsAfter(sessionId, lastEventId, send),
+    };
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    for (const [id, event] of this.events) {
+      if (event.session_id === sessionId) this.events.delete(id);
+    }
+  }
+
+  protected async storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const event: StoredEvent = {
+      event_id: randomUUID(),
+      session_id: sessionId,
+      stream_id: streamId,
+      message,
+      stored_at: Date.now(),
+    };
+    this.events.set(event.event_id, event);
+    this.evict();
+    return event.event_id;
+  }
+
+  /** The event, if it belongs to this session; another session's event ID is treated as unknown. */
+  private findEvent(sessionId: string, eventId: EventId): StoredEvent | undefined {
+    const event = this.events.get(eventId);
+    return event?.session_id === sessionId ? event : undefined;
+  }
+
+  private async replayEventsAfter(
+    sessionId: string,
+    lastEventId: EventId,
+    send: (eventId: EventId, message: JSONRPCMessage) => Promise<void>
+  ): Promise<StreamId> {
+    const last = this.findEvent(sessionId, lastEventId);
+    if (!last) throw new Error(`Unknown event ID ${lastEventId}`);
+
+    let found = false;
+    for (const event of [...this.events.values()]) {
+      if (event.event_id === lastEventId) {
+        found = true;
+      } else if (found && event.session_id === sessionId && event.stream_id === last.stream_id) {
+        await send(event.event_id, event.message);
+      }
+    }
+    return last.stream_id;
+  }
+
+  /** Drop events past the age limit, then the oldest beyond the count limit. */
+  protected evict(now: number = Date.now()): number {
+    let evicted = 0;
+    for (const [id, event] of this.events) {
+      if (now - event.stored_at <= this.maxAgeMs && this.events.size <= this.maxEvents) break;
+      this.events.delete(id);
+      evicted++;
+    }
+    return evicted;
+  }
+}
+
+// Events arrive in bursts (a progress notification per scraper step), so the file
+// is rewritten at most this often rather than once per event
+const FLUSH_DELAY_MS = 250;
+
+/**
+ * Keeps events in memory and mirrors them to a JSON file, so a client can still
+ * resume after a server restart. Writes are batched.
+ */
+export class FileEventStore extends MemoryEventStore {
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string, options: EventStoreOptions = {}) {
+    super(options);
+    for (const event of readJsonRecords<StoredEvent>(filePath)) {
+      this.events.set(event.event_id, event);
+    }
+    this.evict();
+  }
+
+  protected async storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = await super.storeEvent(sessionId, streamId, message);
+    this.scheduleFlush();
+    return eventId;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await super.deleteSession(sessionId);
+    this.scheduleFlush();
+  }
+
+  /** Write any pending events now, e.g. before the process exits. */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    writeJsonRecords(this.filePath, this.events.values(), { pretty: false });
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => {
+      try {
+        this.flush();
+      } catch (error) {
+        console.error("[EventStore] Failed to write events:", error);
+      }
+    }, FLUSH_DELAY_MS);
+    this.flushTimer.unref();
+  }
+}
+
+function createEventStore(): SessionEventStore | undefined {
+  const kind = (process.env.EVENT_STORE || "memory").toLowerCase();
+  if (kind === "none") return undefined;
+  if (kind === "file") {
+    const filePath = resolve(process.env.EVENT_STORE_PATH || ".data/events.json");
+    console.error(`[EventStore] Persisting SSE events to ${filePath}`);
+    return new FileEventStore(filePath);
+  }
+  if (kind !== "memory") {
+    console.error(`[EventStore] Unknown EVENT_STORE "${kind}", using in-memory store`);
+  }
+  return new MemoryEventStore();
+}
+
+let store: SessionEventStore | undefined | null = null;
+
+/** The event store shared by every HTTP session, or undefined when resumability is off (EVENT_STORE=none). */
+export function getEventStore(): SessionEventStore | undefined {
+  if (store === null) {
+    store = createEventStore();
+  }
+  return store;
+}
+
+export function setEventStore(custom: SessionEventStore | undefined): void {
+  store = custom;
+}
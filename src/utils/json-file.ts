@@ -0,0 +1,25 @@
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+
+/**
+ * The JSON files that file-backed stores mirror their records to. Writes go to a
+ * temp file first and are renamed into place, so a crash mid-write leaves the
+ * previous file rather than a torn one.
+ */
+
+/** The records saved at `filePath`; none if it doesn't exist yet or can't be read. */
+export function readJsonRecords<T>(filePath: string): T[] {
+  try {
+    return JSON.parse(readFileSync(filePath, "utf-8")) as T[];
+  } catch {
+    return [];
+  }
+}
+
+/** Replace the records saved at `filePath`, creating its directory if needed. */
+export function writeJsonRecords<T>(filePath: string, records: Iterable<T>, { pretty = true } = {}): void {
+  mkdirSync(dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify([...records], null, pretty ? 2 : undefined));
+  renameSync(tmpPath, filePath);
+}
@@ -0,0 +1,154 @@
+import { randomUUID } from "crypto";
+import { getRatingData } from "./rating-data.js";
+import {
+  buildBreakdown,
+  depreciate,
+  findInCatalogue,
+  formatRange,
+  getPostcodeRiskZone,
+  pricePremium,
+  quoteValidUntil,
+  QuoteResult,
+} from "./quote-calculator.js";
+
+// Motorcycle estimates: base rate by bike category, then rider age, riding
+// experience, claims, postcode and overnight storage. Rules are in
+// motorcycle-rules.json and read on every call so hot reloads apply.
+
+export interface MotorcycleQuoteInput {
+  motorcycle_make: string;
+  motorcycle_model: string;
+  motorcycle_year: number;
+  postcode: string;
+  rider_age: number;
+  /** Age the rider got their motorcycle licence (learner permits don't count). */
+  licence_age: number;
+  claims_last_5_years: number;
+  storage: "garage" | "carport" | "street" | "driveway";
+  is_racv_member?: boolean;
+}
+
+export interface MotorcycleQuoteResult
+  extends Pick<
+    QuoteResult,
+    | "quote_id"
+    | "premium_range_annual"
+    | "premium_range_monthly"
+    | "excess_options"
+    | "coverage_summary"
+    | "member_discount_available"
+    | "member_discount_pct"
+    | "member_discount_applied"
+    | "valid_until"
+    | "risk_zone"
+    | "breakdown"
+    | "pricing_version"
+    | "pricing_effective_from"
+    | "warnings"
+    | "disclaimers"
+  > {
+  product: "motorcycle";
+  motorcycle: QuoteResult["vehicle"];
+}
+
+// Pricing for motorcycles that aren't in motorcycles.json
+const FALLBACK_CATEGORY = "road";
+const FALLBACK_BASE_VALUE = 12000;
+
+function getBracket<T extends { multiplier: number }>(brackets: T[], value: number, min: keyof T, max: keyof T, what: string): T {
+  const bracket = brackets.find((b) => value >= (b[min] as number) && value <= (b[max] as number));
+  if (!bracket) throw new RangeError(`No ${what} bracket covers ${value}`);
+  return bracket;
+}
+
+export function calculateMotorcycleQuote(input: MotorcycleQuoteInput): MotorcycleQuoteResult {
+  const { motorcycles, motorcycleRules: rules } = getRatingData();
+  const info = findInCatalogue(motorcycles, input.motorcycle_make, input.motorcycle_model);
+  const category = info?.category ?? FALLBACK_CATEGORY;
+  const baseValue = info?.base_value ?? FALLBACK_BASE_VALUE;
+
+  const baseRate = rules.base_rates[category];
+  const ageBracket = getBracket(rules.age_multipliers, input.rider_age, "min_age", "max_age", "rider age");
+  const yearsLicensed = Math.max(0, input.rider_age - input.licence_age);
+  const experience = getBracket(rules.experience_multipliers, yearsLicensed, "min_years", "max_years", "riding experience");
+  const claimsMultiplier = rules.claims_multipliers[String(input.claims_last_5_years)];
+  if (claimsMultiplier === undefined) throw new RangeError(`No claims multiplier for ${input.claims_last_5_years} claims`);
+  const riskZone = getPostcodeRiskZone(input.postcode);
+
+  const breakdown = buildBreakdown(category, (baseRate.min + baseRate.max) / 2, [
+    {
+      factor: "driver_age",
+      label: "Rider age",
+      bracket: formatRange(ageBracket.min_age, ageBracket.max_age, "age"),
+      multiplier: ageBracket.multiplier,
+    },
+    {
+      factor: "riding_experience",
+      label: "Riding experience",
+      bracket: `${yearsLicensed} year${yearsLicensed === 1 ? "" : "s"} licensed → ${formatRange(experience.min_years, experience.max_years, "").trim()} years`,
+      multiplier: experience.multiplier,
+    },
+    {
+      factor: "claims",
+      label: "Claims history",
+      bracket: `${input.claims_last_5_years} at-fault claim${input.claims_last_5_years === 1 ? "" : "s"} in 5 years`,
+      multiplier: claimsMultiplier,
+    },
+    {
+      factor: "postcode",
+      label: "Postcode risk",
+      bracket: `postcode ${input.postcode} → ${riskZone}`,
+      multiplier: rules.postcode_risk_multipliers[riskZone],
+    },
+    {
+      factor: "parking",
+      label: "Overnight storage",
+      bracket: input.storage,
+      multiplier: rules.storage_multipliers[input.storage],
+    },
+    ...(input.is_racv_member
+      ? [{
+          factor: "member_discount" as const,
+          label: "RACV member discount",
+          bracket: `${rules.member_discount_pct}% off`,
+          multiplier: 1 - rules.member_discount_pct / 100,
+        }]
+      : []),
+  ]);
+
+  return {
+    product: "motorcycle",
+    quote_id: `RACV-${randomUUID().slice(0, 8).toUpperCase()}`,
+    ...pricePremium(breakdown.annual_premium, rules),
+    coverage_summary: rules.coverage_highlights,
+    member_discount_available: true,
+    member_discount_pct: rules.member_discount_pct,
+    member_discount_applied: Boolean(input.is_racv_member),
+    valid_until: quoteValidUntil(),
+    motorcycle: {
+      make: input.motorcycle_make,
+      model: input.motorcycle_model,
+      year: input.motorcycle_year,
+      category,
+      estimated_value: depreciate(baseValue, input.motorcycle_year),
+      in_catalogue: info !== null,
+    },
+    risk_zone: riskZone,
+    breakdown,
+    pricing_version: rules.version,
+    pricing_effective_from: rules.effective_from,
+    warnings: info
+      ? []
+      : [
+          `The ${input.motorcycle_make} ${input.motorcycle_model} is not in RACV's motorcycle catalogue, so it was priced as a ` +
+            `${FALLBACK_CATEGORY} bike worth $${FALLBACK_BASE_VALUE.toLocaleString()} new. The estimate may be well off.`,
+        ],
+    disclaimers: [
+      "This is an indicative quote only and is not a binding offer of insurance.",
+      "Final premium will be determined upon completion of a full application on racv.com.au.",
+      "RACV Motorcycle Insurance is issued by Insurance Manufacturers of Australia Pty Ltd (IMA) ABN 93 004 208 084, AFS Licence No. 227678.",
+      "Please refer to the Product Disclosure Statement (PDS) for full terms, conditions and exclusions at racv.com.au/pds.",
+      "This information is general in nature and does not constitute personal financial advice.",
+    ],
+  };
+}
@@ -0,0 +1,181 @@
+import { getRatingData, CoverageArea, CoverType, PdsClause, PolicyWording } from "./rating-data.js";
+import type { Product } from "./products.js";
+import { editDistance } from "./fuzzy.js";
+
+/**
+ * The product disclosure statement wording in pds-*.json: clauses by coverage
+ * area for get_coverage_details, and a local full-text search (BM25 over each
+ * clause's heading, keywords and text) so questions like "am I covered for hail
+ * while parked at work?" come back with the clauses that answer them and the
+ * PDS sections to cite.
+ */
+
+export interface PolicyClause {
+  section: string;
+  area: CoverageArea;
+  heading: string;
+  text: string;
+  /** Covers the clause applies to. */
+  cover_types: CoverType[];
+  /** e.g. "RACV Car Insurance Product Disclosure Statement, section 2.6 (Storm, flood and hail damage)" */
+  citation: string;
+}
+
+export interface PolicyClauseMatch extends PolicyClause {
+  /** Relative to the best match, which scores 1. */
+  score: number;
+  /** Words from the query found in the clause. */
+  matched_terms: string[];
+}
+
+export interface PolicySearchResult {
+  query: string;
+  product: Product;
+  document: string;
+  matches: PolicyClauseMatch[];
+}
+
+export interface PolicySearchOptions {
+  cover_type?: CoverType;
+  area?: CoverageArea;
+  limit?: number;
+}
+
+const STOP_WORDS = new Set(
+  ("a am an and any are as at be by can cover covered covers do does for from get has have how i if in is it its " +
+    "me my of on or our so that the their then there this to was we what when where which while who will with " +
+    "would you your").split(" ")
+);
+
+// BM25 parameters; headings and keywords count double so a clause about hail outranks one that mentions it in passing
+const K1 = 1.2;
+const B = 0.75;
+const HEADING_WEIGHT = 2;
+const KEYWORD_WEIGHT = 2;
+
+/** Crude suffix stripping, enough for "parked"/"parking" and "damaged"/"damage" to meet. */
+function stem(word: string): string {
+  let stemmed = word;
+  if (stemmed.length > 4 && stemmed.endsWith("ies")) stemmed = stemmed.slice(0, -3) + "y";
+  else if (stemmed.length > 5 && stemmed.endsWith("ing")) stemmed = stemmed.slice(0, -3);
+  else if (stemmed.length > 4 && stemmed.endsWith("ed")) stemmed = stemmed.slice(0, -2);
+  else if (stemmed.length > 3 && stemmed.endsWith("s") && !stemmed.endsWith("ss")) stemmed = stemmed.slice(0, -1);
+  return stemmed.length > 3 && stemmed.endsWith("e") ? stemmed.slice(0, -1) : stemmed;
+}
+
+/** Words with their stems; "$1,000" becomes "1000" and possessives are dropped. */
+function tokenize(text: string): { word: string; stem: string }[] {
+  return text
+    .toLowerCase()
+    .replace(/(\d),(\d{3})/g, "$1$2")
+    .replace(/['’]s\b/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map((word) => ({ word, stem: stem(word) }));
+}
+
+function toPolicyClause(pds: PolicyWording, clause: PdsClause): PolicyClause {
+  return {
+    section: clause.section,
+    area: clause.area,
+    heading: clause.heading,
+    text: clause.text,
+    cover_types: clause.cover_types ?? pds.cover_types,
+    citation: `${pds.document}, section ${clause.section} (${clause.heading})`,
+  };
+}
+
+function appliesTo(pds: PolicyWording, clause: PdsClause, coverType?: CoverType, area?: CoverageArea): boolean {
+  if (area && clause.area !== area) return false;
+  return !coverType || (clause.cover_types ?? pds.cover_types).includes(coverType);
+}
+
+export function getPolicyWording(product: Product): PolicyWording {
+  return getRatingData().pds[product];
+}
+
+/** The clauses for one coverage area, in PDS order. Empty when the product isn't sold with `coverType`. */
+export function coverageClauses(product: Product, coverType: CoverType, area: CoverageArea): PolicyClause[] {
+  const pds = getPolicyWording(product);
+  return pds.clauses.filter((clause) => appliesTo(pds, clause, coverType, area)).map((clause) => toPolicyClause(pds, clause));
+}
+
+/** Map a query stem that appears in no clause to the closest one that does ("windscren" → "windscreen"). */
+function correctTypo(queryStem: string, vocabulary: Set<string>): string {
+  if (vocabulary.has(queryStem) || queryStem.length < 5) return queryStem;
+  const tolerance = queryStem.length >= 8 ? 2 : 1;
+  let best = queryStem;
+  let bestDistance = tolerance + 1;
+  for (const term of vocabulary) {
+    if (Math.abs(term.length - queryStem.length) > tolerance) continue;
+    const distance = editDistance(queryStem, term);
+    if (distance < bestDistance) {
+      best = term;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+export function searchPolicyWording(query: string, product: Product, options: PolicySearchOptions = {}): PolicySearchResult {
+  const pds = getPolicyWording(product);
+  const clauses = pds.clauses.filter((clause) => appliesTo(pds, clause, options.cover_type, options.area));
+
+  const documents = clauses.map((clause) => {
+    const frequencies = new Map<string, number>();
+    const add = (text: string, weight: number) => {
+      for (const { stem } of tokenize(text)) frequencies.set(stem, (frequencies.get(stem) ?? 0) + weight);
+    };
+    add(clause.heading, HEADING_WEIGHT);
+    add(clause.keywords.join(" "), KEYWORD_WEIGHT);
+    add(clause.text, 1);
+    const length = [...frequencies.values()].reduce((sum, n) => sum + n, 0);
+    return { clause, frequencies, length };
+  });
+
+  const vocabulary = new Set(documents.flatMap((doc) => [...doc.frequencies.keys()]));
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(documents.length, 1);
+  const documentFrequency = (term: string) => documents.filter((doc) => doc.frequencies.has(term)).length;
+
+  // Query stem → the word as typed, for reporting what matched
+  const queryTerms = new Map<string, string>();
+  for (const { word, stem } of tokenize(query)) {
+    const term = correctTypo(stem, vocabulary);
+    if (!queryTerms.has(term)) queryTerms.set(term, word);
+  }
+
+  const idf = new Map(
+    [...queryTerms.keys()].map((term) => {
+      const df = documentFrequency(term);
+      return [term, Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))] as const;
+    })
+  );
+
+  const scored = documents
+    .map((doc) => {
+      let score = 0;
+      const matched: string[] = [];
+      for (const [term, word] of queryTerms) {
+        const tf = doc.frequencies.get(term);
+        if (!tf) continue;
+        matched.push(word);
+        score += idf.get(term)! * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / averageLength)));
+      }
+      // Clauses that answer more of the question come first ("hail … at work" → hail, not tools of trade)
+      return { doc, score: score * (matched.length / queryTerms.size), matched };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const top = scored[0]?.score ?? 1;
+  return {
+    query,
+    product,
+    document: pds.document,
+    matches: scored.slice(0, options.limit ?? 5).map(({ doc, score, matched }) => ({
+      ...toPolicyClause(pds, doc.clause),
+      score: Math.round((score / top) * 100) / 100,
+      matched_terms: matched,
+    })),
+  };
+}
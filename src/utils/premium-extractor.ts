@@ -0,0 +1,246 @@
+/**
+ * Premium extraction for the RACV quote result page.
+ *
+ * Pure functions over saved HTML or plain text so the parsing can be checked against
+ * captured pages (fixtures/result-pages) without a browser. Every dollar amount is
+ * classified from the words around it and given a confidence score; the best
+ * annual, monthly and excess candidates are then picked from those.
+ */
+
+import type { CoverType } from "./rating-data.js";
+
+export type AmountKind =
+  | "annual_premium"
+  | "monthly_premium"
+  | "excess"
+  | "driver_excess"
+  | "previous_price"
+  | "saving"
+  | "limit"
+  | "unknown";
+
+export interface ExtractedAmount {
+  amount: number;
+  raw: string;
+  kind: AmountKind;
+  /** The words that decided the kind, e.g. "per year" or "Basic excess". */
+  label: string;
+  /** 0–1: labelled amounts score high, range-guessed amounts low. */
+  confidence: number;
+  /** Cover type heading the amount sits under on multi-tier pages. */
+  tier?: string;
+  index: number;
+}
+
+export interface PremiumExtraction {
+  annual?: ExtractedAmount;
+  monthly?: ExtractedAmount;
+  excess?: ExtractedAmount;
+  /** Age and inexperienced driver excesses, in page order. */
+  driver_excesses: ExtractedAmount[];
+  /** Cover the annual premium was found under, when the page names one. */
+  cover_type?: CoverType;
+  amounts: ExtractedAmount[];
+}
+
+export const STANDARD_EXCESS_AMOUNTS = [650, 800, 1000, 1500];
+
+const ANNUAL_RANGE = { min: 300, max: 8000 };
+const MONTHLY_RANGE = { min: 25, max: 300 };
+
+const ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&nbsp;": " ",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&#39;": "'",
+  "&#36;": "$",
+  "&dollar;": "$",
+};
+
+/**
+ * Flatten result-page HTML to text. Struck-through and "was" prices are prefixed
+ * with "was" so they are not mistaken for the current premium.
+ */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|template)\b[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<(del|s|strike)\b[^>]*>/gi, " was ")
+    .replace(/<[a-z]+\b[^>]*class="[^"]*\b(?:was|strike|previous|old)[-_]?price[^"]*"[^>]*>/gi, " was ")
+    // Cells stay on their row's line so "Basic excess | $650" reads as one label + amount
+    .replace(/<br\s*\/?>|<\/(?:p|div|li|h[1-6]|tr|section|article|button|label)>/gi, "\n")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&[a-z#0-9]+;/gi, (entity) => ENTITIES[entity.toLowerCase()] ?? " ")
+    .replace(/[ \t\f\v\u00a0]+/g, " ")
+    .replace(/ *\n[\s]*/g, "\n")
+    .trim();
+}
+
+interface Rule {
+  kind: AmountKind;
+  confidence: number;
+  where: "before" | "after";
+  pattern: RegExp;
+}
+
+// Ordered: the first matching rule wins. "After" labels may sit on the next line
+// (markup often splits "$1,284.36" and "/year" over two), but only when they can't
+// start a label of their own: "/year", "per month", "p.a." and "off" can, while a
+// bare "Monthly" on the next line belongs to the amount after it.
+const RULES: Rule[] = [
+  { kind: "previous_price", confidence: 0.9, where: "before", pattern: /\b(was|previously|usually|normally)\s*:?\s*$/i },
+  { kind: "saving", confidence: 0.9, where: "before", pattern: /\b(save|saving|savings|discount of|you save)\b[^$\n]{0,20}$/i },
+  { kind: "saving", confidence: 0.85, where: "after", pattern: /^\s*off\b|^[ \t]*(saving|discount)\b/i },
+  {
+    kind: "annual_premium",
+    confidence: 0.95,
+    where: "after",
+    pattern: /^\s*(?:\/\s*|per\s+)(year|yr|annum)\b|^[ \t]*(?:a\s+)?(year|yearly|yr|annum|annually)\b|^\s*(p\.?\s?a\.?)(?![a-z])/i,
+  },
+  {
+    kind: "monthly_premium",
+    confidence: 0.95,
+    where: "after",
+    pattern: /^\s*(?:\/\s*|per\s+)(month|mth|mo)\b|^[ \t]*(?:a\s+)?(month|monthly|mth|mo)\b|^\s*(p\.?\s?m\.?)(?![a-z])/i,
+  },
+  { kind: "limit", confidence: 0.85, where: "before", pattern: /\b(up to|limit(?: of)?|maximum|max\.?|personal items|accommodation|towing|hire car)\b[^$\n]{0,30}$/i },
+  {
+    kind: "driver_excess",
+    confidence: 0.9,
+    where: "before",
+    pattern: /\b(?:age|young(?:er)?|inexperienced|under\s?\d{2})\b[^$\n]{0,40}\bexcess\b[^$\n]{0,25}$|\bexcess\b[^$\n]{0,40}\b(?:age|young(?:er)?|inexperienced|under\s?\d{2})\b[^$\n]{0,25}$/i,
+  },
+  { kind: "excess", confidence: 0.9, where: "before", pattern: /\b(excess)\b[^$\n]{0,25}$/i },
+  { kind: "annual_premium", confidence: 0.85, where: "before", pattern: /\b(annual(?:ly)?|yearly|per year|pay annually)\b[^$\n]{0,30}$/i },
+  { kind: "monthly_premium", confidence: 0.85, where: "before", pattern: /\b(monthly|per month|pay monthly)\b[^$\n]{0,30}$/i },
+];
+
+const TIER_PATTERN = /(comprehensive|third party,? fire (?:and|&) theft|third party property(?: only)?)/gi;
+
+function adjust(confidence: number, delta: number): number {
+  return Math.round(Math.min(1, Math.max(0, confidence + delta)) * 100) / 100;
+}
+
+function tierFor(text: string, index: number): string | undefined {
+  const window = text.slice(Math.max(0, index - 400), index);
+  const matches = [...window.matchAll(TIER_PATTERN)];
+  if (matches.length === 0) return undefined;
+  return matches[matches.length - 1][1].toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Which cover a tier heading ("third party, fire & theft", "comprehensive", ...) is for. */
+export function coverTypeForTier(tier: string): CoverType | undefined {
+  if (tier.startsWith("comprehensive")) return "comprehensive";
+  if (tier.includes("fire")) return "third_party_fire_theft";
+  if (tier.includes("property")) return "third_party_property";
+  return undefined;
+}
+
+function classify(amount: number, before: string, after: string): Pick<ExtractedAmount, "kind" | "label" | "confidence"> {
+  for (const rule of RULES) {
+    const m = (rule.where === "before" ? before : after).match(rule.pattern);
+    if (m) {
+      let confidence = rule.confidence;
+      if (rule.kind === "excess" && STANDARD_EXCESS_AMOUNTS.includes(amount)) {
+        confidence = adjust(confidence, 0.05);
+      }
+      const label = (rule.where === "before"
+        ? before.slice(Math.max(0, before.search(/\S[^\n]*$/)))
+        : m[0]
+      ).trim();
+      return { kind: rule.kind, label, confidence };
+    }
+  }
+
+  // Unlabelled: fall back to the range heuristics the scraper has always used
+  if (STANDARD_EXCESS_AMOUNTS.includes(amount)) {
+    return { kind: "excess", label: "unlabelled", confidence: 0.3 };
+  }
+  if (amount >= ANNUAL_RANGE.min && amount <= ANNUAL_RANGE.max) {
+    return { kind: "annual_premium", label: "unlabelled", confidence: 0.4 };
+  }
+  if (amount >= MONTHLY_RANGE.min && amount < MONTHLY_RANGE.max) {
+    return { kind: "monthly_premium", label: "unlabelled", confidence: 0.35 };
+  }
+  return { kind: "unknown", label: "unlabelled", confidence: 0.1 };
+}
+
+/** Every dollar amount in the text, classified. */
+export function findAmounts(text: string): ExtractedAmount[] {
+  const amounts: ExtractedAmount[] = [];
+  const pattern = /\$\s?([\d,]+(?:\.\d{2})?)/g;
+  let previousEnd = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    const end = index + match[0].length;
+    const amount = parseFloat(match[1].replace(/,/g, ""));
+    if (isNaN(amount)) continue;
+
+    // Only look back as far as the previous amount so labels don't leak forward
+    const before = text.slice(Math.max(previousEnd, index - 60), index);
+    const after = text.slice(end, end + 25).split(/\$/)[0];
+    previousEnd = end;
+
+    amounts.push({
+      amount,
+      raw: match[0].replace(/\s/g, ""),
+      ...classify(amount, before, after),
+      tier: tierFor(text, index),
+      index,
+    });
+  }
+
+  return amounts;
+}
+
+function pick(amounts: ExtractedAmount[], kind: AmountKind, tier?: string): ExtractedAmount | undefined {
+  return amounts
+    .filter((a) => a.kind === kind)
+    .sort((a, b) => {
+      const tierScore = (x: ExtractedAmount) =>
+        tier === undefined ? 0 : x.tier === tier ? 2 : x.tier === undefined ? 1 : 0;
+      return tierScore(b) - tierScore(a) || b.confidence - a.confidence || a.index - b.index;
+    })[0];
+}
+
+/**
+ * Extract the annual premium, monthly premium and excess from a quote result page.
+ * On multi-tier pages the tier for `coverType` (comprehensive by default) is preferred.
+ */
+export function extractPremiums(
+  source: string,
+  options: { html?: boolean; coverType?: CoverType } = {}
+): PremiumExtraction {
+  const isHtml = options.html ?? /<[a-z][\s\S]*>/i.test(source);
+  const text = isHtml ? htmlToText(source) : source;
+  const amounts = findAmounts(text);
+
+  const tiers = new Set(amounts.map((a) => a.tier).filter(Boolean));
+  const wanted = options.coverType ?? "comprehensive";
+  const preferredTier = [...tiers].find((tier) => coverTypeForTier(tier!) === wanted);
+
+  const annual = pick(amounts, "annual_premium", preferredTier);
+  const monthly = pick(amounts, "monthly_premium", annual?.tier ?? preferredTier);
+  const excess = pick(amounts, "excess", annual?.tier ?? preferredTier);
+
+  // Monthly instalments usually cost a little more than a twelfth of the annual price
+  if (annual && monthly) {
+    const ratio = (monthly.amount * 12) / annual.amount;
+    if (ratio >= 0.95 && ratio <= 1.2) {
+      annual.confidence = adjust(annual.confidence, 0.05);
+      monthly.confidence = adjust(monthly.confidence, 0.05);
+    } else {
+      const weaker = annual.confidence <= monthly.confidence ? annual : monthly;
+      weaker.confidence = adjust(weaker.confidence, -0.2);
+    }
+  }
+
+  const driver_excesses = amounts.filter(
+    (a) => a.kind === "driver_excess" && (a.tier === undefined || a.tier === (annual?.tier ?? preferredTier))
+  );
+
+  const cover_type = annual?.tier ? coverTypeForTier(annual.tier) : undefined;
+  return { annual, monthly, excess, driver_excesses, cover_type, amounts };
+}
@@ -0,0 +1,40 @@
+/**
+ * The insurance products the app quotes. Cars were the only product originally;
+ * motorcycles and caravans/trailers have their own catalogue, rating rules and
+ * estimate tools, and share the live RACV quote form under a different `p=` code.
+ */
+
+export const PRODUCTS = ["car", "motorcycle", "caravan"] as const;
+export type Product = (typeof PRODUCTS)[number];
+
+export interface ProductInfo {
+  /** e.g. "Motorcycle", used in "RACV Motorcycle Insurance". */
+  label: string;
+  /** Value of the `p=` parameter on my.racv.com.au/s/motor-insurance. */
+  racv_code: string;
+  /** racv.com.au page where a full quote is completed. */
+  full_quote_url: string;
+  /** Tool that gives an indicative estimate for the product. */
+  estimate_tool: string;
+}
+
+export const PRODUCT_INFO: Record<Product, ProductInfo> = {
+  car: {
+    label: "Car",
+    racv_code: "CAR",
+    full_quote_url: "https://www.racv.com.au/car-insurance/get-a-quote.html",
+    estimate_tool: "estimate_motor_quote",
+  },
+  motorcycle: {
+    label: "Motorcycle",
+    racv_code: "MOTORCYCLE",
+    full_quote_url: "https://www.racv.com.au/motorcycle-insurance/get-a-quote.html",
+    estimate_tool: "estimate_motorcycle_quote",
+  },
+  caravan: {
+    label: "Caravan & Trailer",
+    racv_code: "CARAVAN",
+    full_quote_url: "https://www.racv.com.au/caravan-and-trailer-insurance/get-a-quote.html",
+    estimate_tool: "estimate_caravan_quote",
+  },
+};
@@ -0,0 +1,146 @@
+import type { RacvQuoteInput, RacvQuoteResult } from "./racv-scraper.js";
+import { STREET_TYPES } from "./address-parser.js";
+import { normaliseRego } from "./rego.js";
+
+/**
+ * Short-lived cache of successful live RACV quotes, keyed on the normalised input,
+ * so a user re-asking for the same quote doesn't re-drive the whole RACV form.
+ * Identical requests that arrive while a scrape is running share its result.
+ */
+
+export interface QuoteCacheInfo {
+  /** True when the result came from the cache rather than a fresh scrape. */
+  hit: boolean;
+  cached_at: string;
+  expires_at: string;
+}
+
+interface CacheEntry {
+  result: RacvQuoteResult;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+const MAX_ENTRIES = 500;
+
+// Words that don't change which address RACV resolves
+const IGNORED_ADDRESS_WORDS = new Set(["vic", "victoria", "australia"]);
+
+/** "80 Bourke St, Melbourne VIC 3000" and "80 bourke street melbourne 3000" normalise the same. */
+export function normaliseAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^a-z0-9/]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter((word) => !IGNORED_ADDRESS_WORDS.has(word))
+    .map((word) => STREET_TYPES[word] ?? word)
+    .join(" ");
+}
+
+export function quoteCacheKey(input: RacvQuoteInput): string {
+  return JSON.stringify([
+    normaliseRego(input.rego),
+    normaliseAddress(input.address),
+    input.driver_age,
+    input.driver_gender,
+    input.licence_age,
+    input.claims_last_5_years,
+    input.is_racv_member ?? false,
+    input.under_finance ?? false,
+    input.purpose ?? "Private",
+    input.cover_type ?? "comprehensive",
+    input.product ?? "car",
+    (input.additional_drivers ?? []).map((d) => [d.driver_age, d.driver_gender, d.licence_age, d.claims_last_5_years]),
+  ]);
+}
+
+export class LiveQuoteCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<RacvQuoteResult>>();
+
+  /** ttlMs of 0 disables caching (in-flight requests are still shared). */
+  constructor(readonly ttlMs: number) {}
+
+  get(input: RacvQuoteInput, now = Date.now()): { result: RacvQuoteResult; cache: QuoteCacheInfo } | undefined {
+    const key = quoteCacheKey(input);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return { result: entry.result, cache: cacheInfo(entry, true) };
+  }
+
+  /** Caches successful results only. Returns the cache metadata, or undefined if not cached. */
+  set(input: RacvQuoteInput, result: RacvQuoteResult, now = Date.now()): QuoteCacheInfo | undefined {
+    if (!result.success || this.ttlMs <= 0) return undefined;
+
+    const key = quoteCacheKey(input);
+    const entry: CacheEntry = { result, cachedAt: now, expiresAt: now + this.ttlMs };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    while (this.entries.size > MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return cacheInfo(entry, false);
+  }
+
+  /**
+   * Return a cached result if there is one, otherwise run `fetch` and cache what it
+   * returns. forceRefresh skips the cache lookup but still caches the new result.
+   */
+  async getOrFetch(
+    input: RacvQuoteInput,
+    fetch: () => Promise<RacvQuoteResult>,
+    options: { forceRefresh?: boolean; onShared?: () => void } = {}
+  ): Promise<{ result: RacvQuoteResult; cache?: QuoteCacheInfo }> {
+    if (!options.forceRefresh) {
+      const cached = this.get(input);
+      if (cached) return cached;
+    }
+
+    const key = quoteCacheKey(input);
+    const running = this.inFlight.get(key);
+    if (running) {
+      options.onShared?.();
+      const result = await running;
+      return { result, cache: this.get(input)?.cache };
+    }
+
+    const pending = fetch();
+    this.inFlight.set(key, pending);
+    try {
+      const result = await pending;
+      return { result, cache: this.set(input, result) };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+function cacheInfo(entry: CacheEntry, hit: boolean): QuoteCacheInfo {
+  return {
+    hit,
+    cached_at: new Date(entry.cachedAt).toISOString(),
+    expires_at: new Date(entry.expiresAt).toISOString(),
+  };
+}
+
+let cache: LiveQuoteCache | null = null;
+
+/** The shared cache; TTL from QUOTE_CACHE_TTL_MINUTES (default 30, 0 disables). */
+export function getLiveQuoteCache(): LiveQuoteCache {
+  if (!cache) {
+    const minutes = parseFloat(process.env.QUOTE_CACHE_TTL_MINUTES || "30");
+    cache = new LiveQuoteCache(isNaN(minutes) || minutes < 0 ? 30 * 60_000 : minutes * 60_000);
+  }
+  return cache;
+}
@@ -1,26 +1,16 @@
 import { randomUUID } from "crypto";
-import { readFileSync } from "fs";
-import { fileURLToPath } from "url";
-import { dirname, join } from "path";
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Resolve data paths — works whether run from dist/ or src/ (via tsx)
-function resolveDataPath(filename: string): string {
-  const fromDist = join(__dirname, "../data", filename);
-  const fromSrc = join(__dirname, "../../src/data", filename);
-  try {
-    readFileSync(fromDist);
-    return fromDist;
-  } catch {
-    return fromSrc;
-  }
-}
+import { getRatingData, CoverType } from "./rating-data.js";
+import { searchVehicles } from "./vehicle-search.js";
+
+// Rating data is read through getRatingData() on every call so hot reloads apply
+// to the next quote. It is validated on load, so lookups below don't need defaults.
 
-const vehicles = JSON.parse(readFileSync(resolveDataPath("vehicles.json"), "utf-8"));
-const postcodes = JSON.parse(readFileSync(resolveDataPath("postcodes.json"), "utf-8"));
-const pricingRules = JSON.parse(readFileSync(resolveDataPath("pricing-rules.json"), "utf-8"));
+export interface DriverDetails {
+  driver_age: number;
+  /** Age the driver was first licensed; needed for the inexperienced driver excess. */
+  licence_age?: number;
+  claims_last_5_years: number;
+}
 
 export interface QuoteInput {
   vehicle_make: string;
@@ -28,8 +18,22 @@ export interface QuoteInput {
   vehicle_year: number;
   postcode: string;
   driver_age: number;
+  licence_age?: number;
   claims_last_5_years: number;
   parking_type: "garage" | "carport" | "street" | "driveway";
+  additional_drivers?: DriverDetails[];
+  /** Apply the RACV member discount to the premiums. */
+  is_racv_member?: boolean;
+  /** Level of cover to price; defaults to comprehensive. */
+  cover_type?: CoverType;
+}
+
+export interface DriverExcess {
+  type: "age" | "inexperienced";
+  label: string;
+  amount: number;
+  /** Drivers it applies to: 0 is the main driver, 1 is additional_drivers[0], and so on. */
+  drivers: number[];
 }
 
 export interface ExcessOption {
@@ -39,14 +43,49 @@ export interface ExcessOption {
   monthly_premium: number;
 }
 
+export type PremiumFactorName =
+  | "driver_age"
+  | "riding_experience"
+  | "claims"
+  | "postcode"
+  | "parking"
+  | "usage"
+  | "vehicle_age"
+  | "member_discount";
+
+export interface PremiumFactor {
+  factor: PremiumFactorName;
+  label: string;
+  /** Which rule applied, e.g. "age 21–24" or "postcode 3000 → very_high". */
+  bracket: string;
+  multiplier: number;
+  /** Dollars this factor added to the annual premium (negative = saving), applied in order. */
+  contribution: number;
+  /** Annual premium after this factor. */
+  running_total: number;
+}
+
+/** How the central annual premium was built: base rate × each factor in turn. */
+export interface PremiumBreakdown {
+  category: string;
+  base_rate: number;
+  factors: PremiumFactor[];
+  annual_premium: number;
+}
+
 export interface QuoteResult {
   quote_id: string;
+  cover_type: CoverType;
+  /** e.g. "Third Party, Fire & Theft" */
+  cover_label: string;
   premium_range_annual: { min: number; max: number };
   premium_range_monthly: { min: number; max: number };
   excess_options: ExcessOption[];
   coverage_summary: string[];
   member_discount_available: boolean;
   member_discount_pct: number;
+  /** True when the premiums above already include the member discount. */
+  member_discount_applied: boolean;
   valid_until: string;
   vehicle: {
     make: string;
@@ -54,139 +93,312 @@ export interface QuoteResult {
     year: number;
     category: string;
     estimated_value: number;
+    /** False when the make/model wasn't found and the fallback category and value were used. */
+    in_catalogue: boolean;
   };
   risk_zone: string;
+  /** The driver the premium was rated on (the highest-risk one when there are several). */
+  rated_driver: DriverDetails & { driver: number };
+  /** Age and inexperienced driver excesses, payable on top of the standard excess. */
+  driver_excesses: DriverExcess[];
+  breakdown: PremiumBreakdown;
+  /** Version of pricing-rules.json the quote was rated with. */
+  pricing_version: string;
+  pricing_effective_from: string;
+  /** Things the customer should check, e.g. that the vehicle wasn't recognised. */
+  warnings: string[];
   disclaimers: string[];
 }
 
-function getVehicleInfo(make: string, model: string): { category: string; base_value: number } | null {
-  const makeNorm = Object.keys(vehicles).find(
+// Pricing for vehicles that aren't in vehicles.json
+const FALLBACK_CATEGORY = "midrange";
+const FALLBACK_BASE_VALUE = 35000;
+// How close a search match must be to suggest it in the fallback warning
+const SUGGESTION_MIN_SCORE = 0.75;
+
+/** Exact (case, space and dash insensitive) make/model lookup in a vehicles.json-style catalogue. */
+export function findInCatalogue<T>(catalogue: Record<string, Record<string, T>>, make: string, model: string): T | null {
+  const makeNorm = Object.keys(catalogue).find(
     (m) => m.toLowerCase() === make.toLowerCase()
   );
   if (!makeNorm) return null;
 
-  const modelNorm = Object.keys(vehicles[makeNorm]).find(
+  const modelNorm = Object.keys(catalogue[makeNorm]).find(
     (mod) => mod.toLowerCase().replace(/[-\s]/g, "") === model.toLowerCase().replace(/[-\s]/g, "")
   );
   if (!modelNorm) return null;
 
-  return vehicles[makeNorm][modelNorm];
+  return catalogue[makeNorm][modelNorm];
+}
+
+function getVehicleInfo(make: string, model: string): { category: string; base_value: number } | null {
+  return findInCatalogue(getRatingData().vehicles, make, model);
+}
+
+function vehicleFallbackWarning(make: string, model: string): string {
+  const best = searchVehicles(`${make} ${model}`, 1).matches[0];
+  const suggestion = best && best.score >= SUGGESTION_MIN_SCORE ? ` Did you mean the ${best.make} ${best.model}?` : "";
+  return (
+    `The ${make} ${model} is not in RACV's vehicle catalogue, so it was priced as a ${FALLBACK_CATEGORY} car ` +
+    `worth $${FALLBACK_BASE_VALUE.toLocaleString()} new. The estimate may be well off.${suggestion}`
+  );
+}
+
+/** Excess amounts a quote for this cover can be priced at, standard first. */
+export function getExcessAmounts(coverType: CoverType = "comprehensive"): number[] {
+  return getRatingData().pricingRules.cover_types[coverType].excess_options.map((opt) => opt.amount);
+}
+
+export function getCoverLabel(coverType: CoverType = "comprehensive"): string {
+  return getRatingData().pricingRules.cover_types[coverType].label;
 }
 
-function getPostcodeRiskZone(postcode: string): string {
+export function isVictorianPostcode(postcode: string): boolean {
+  return /^\d{4}$/.test(postcode) && postcode.startsWith(getRatingData().postcodes.valid_prefix);
+}
+
+// Postcodes listed explicitly win over ranges (e.g. 3006 Southbank sits inside an inner-Melbourne range)
+export function getPostcodeRiskZone(postcode: string): string {
+  const zones = Object.entries(getRatingData().postcodes.risk_zones);
   const pc = parseInt(postcode, 10);
-  const zones = postcodes.risk_zones;
 
-  for (const [zone, config] of Object.entries(zones) as [string, any][]) {
-    if (config.postcodes?.includes(postcode)) return zone;
-    for (const [min, max] of config.ranges || []) {
-      if (pc >= min && pc <= max) return zone;
-    }
-  }
+  const explicit = zones.find(([, config]) => config.postcodes.includes(postcode));
+  if (explicit) return explicit[0];
+  const ranged = zones.find(([, config]) => config.ranges.some(([min, max]) => pc >= min && pc <= max));
+  if (ranged) return ranged[0];
 
-  return "medium";
+  throw new RangeError(`Postcode ${postcode} is not in any risk zone`);
+}
+
+function getAgeBracket(age: number): { min_age: number; max_age: number; multiplier: number } {
+  const bracket = getRatingData().pricingRules.age_multipliers.find(
+    (b) => age >= b.min_age && age <= b.max_age
+  );
+  if (!bracket) throw new RangeError(`No age bracket covers a driver aged ${age}`);
+  return bracket;
 }
 
 function getAgeMultiplier(age: number): number {
-  for (const bracket of pricingRules.age_multipliers) {
-    if (age >= bracket.min_age && age <= bracket.max_age) {
-      return bracket.multiplier;
-    }
-  }
-  return 1.0;
+  return getAgeBracket(age).multiplier;
 }
 
-function getVehicleAgeMultiplier(vehicleYear: number): number {
-  const currentYear = new Date().getFullYear();
-  const age = currentYear - vehicleYear;
-  for (const bracket of pricingRules.vehicle_age_adjustments) {
-    if (age >= bracket.min_years && age <= bracket.max_years) {
-      return bracket.multiplier;
+function getClaimsMultiplier(claims: number): number {
+  const multiplier = getRatingData().pricingRules.claims_multipliers[String(claims)];
+  if (multiplier === undefined) throw new RangeError(`No claims multiplier for ${claims} claims`);
+  return multiplier;
+}
+
+function getDriverMultiplier(driver: DriverDetails): number {
+  return getAgeMultiplier(driver.driver_age) * getClaimsMultiplier(driver.claims_last_5_years);
+}
+
+function allDrivers(input: QuoteInput): DriverDetails[] {
+  const main: DriverDetails = {
+    driver_age: input.driver_age,
+    licence_age: input.licence_age,
+    claims_last_5_years: input.claims_last_5_years,
+  };
+  return [main, ...(input.additional_drivers ?? [])];
+}
+
+// Highest age × claims loading wins; ties go to the earlier driver
+function ratedDriver(drivers: DriverDetails[]): DriverDetails & { driver: number } {
+  let rated = 0;
+  drivers.forEach((driver, i) => {
+    if (getDriverMultiplier(driver) > getDriverMultiplier(drivers[rated])) rated = i;
+  });
+  return { ...drivers[rated], driver: rated };
+}
+
+function getDriverExcesses(drivers: DriverDetails[]): DriverExcess[] {
+  const excesses: DriverExcess[] = [];
+  for (const rule of getRatingData().pricingRules.driver_excesses) {
+    const applies = drivers
+      .map((driver, i) => ({ driver, i }))
+      .filter(({ driver }) => {
+        if (driver.driver_age < rule.min_age || driver.driver_age > rule.max_age) return false;
+        if (rule.max_years_licensed === undefined) return true;
+        if (driver.licence_age === undefined) return false;
+        return driver.driver_age - driver.licence_age <= rule.max_years_licensed;
+      })
+      .map(({ i }) => i);
+    if (applies.length > 0) {
+      excesses.push({ type: rule.type, label: rule.label, amount: rule.amount, drivers: applies });
     }
   }
-  return 1.0;
+  return excesses;
+}
+
+function getVehicleAgeBracket(vehicleYear: number): { min_years: number; max_years: number; multiplier: number } {
+  // Next year's models count as new
+  const age = Math.max(0, new Date().getFullYear() - vehicleYear);
+  const bracket = getRatingData().pricingRules.vehicle_age_adjustments.find(
+    (b) => age >= b.min_years && age <= b.max_years
+  );
+  if (!bracket) throw new RangeError(`No vehicle age bracket covers a ${age}-year-old vehicle`);
+  return bracket;
 }
 
-function depreciate(baseValue: number, vehicleYear: number): number {
+export function formatRange(min: number, max: number, unit: string): string {
+  return max >= 99 ? `${unit} ${min}+` : `${unit} ${min}–${max}`;
+}
+
+/**
+ * Apply each factor to the base rate in order. Contributions are the change in the
+ * rounded running total, so they add up exactly to the final premium.
+ */
+export function buildBreakdown(
+  category: string,
+  baseRate: number,
+  factors: Omit<PremiumFactor, "contribution" | "running_total">[]
+): PremiumBreakdown {
+  let running = baseRate;
+  const applied = factors.map((factor) => {
+    const before = Math.round(running);
+    running *= factor.multiplier;
+    const after = Math.round(running);
+    return { ...factor, contribution: after - before, running_total: after };
+  });
+  return { category, base_rate: Math.round(baseRate), factors: applied, annual_premium: Math.round(running) };
+}
+
+export function depreciate(baseValue: number, vehicleYear: number, rate = 0.12): number {
   const currentYear = new Date().getFullYear();
   const age = currentYear - vehicleYear;
   if (age <= 0) return baseValue;
-  const rate = 0.12;
   return Math.round(baseValue * Math.pow(1 - rate, age));
 }
 
-export function calculateQuote(input: QuoteInput): QuoteResult {
-  const vehicleInfo = getVehicleInfo(input.vehicle_make, input.vehicle_model);
-  const category = vehicleInfo?.category ?? "midrange";
-  const baseValue = vehicleInfo?.base_value ?? 35000;
-  const estimatedValue = depreciate(baseValue, input.vehicle_year);
-
-  const baseRate = pricingRules.base_rates[category] as { min: number; max: number };
-  const basePremium = (baseRate.min + baseRate.max) / 2;
-
-  const ageMultiplier = getAgeMultiplier(input.driver_age);
-  const claimsMultiplier =
-    pricingRules.claims_multipliers[String(input.claims_last_5_years)] ?? 1.0;
-  const riskZone = getPostcodeRiskZone(input.postcode);
-  const postcodeMultiplier =
-    pricingRules.postcode_risk_multipliers[riskZone] ?? 1.0;
-  const parkingMultiplier =
-    pricingRules.parking_multipliers[input.parking_type] ?? 1.0;
-  const vehicleAgeMultiplier = getVehicleAgeMultiplier(input.vehicle_year);
-
-  const annualPremium = Math.round(
-    basePremium *
-      ageMultiplier *
-      claimsMultiplier *
-      postcodeMultiplier *
-      parkingMultiplier *
-      vehicleAgeMultiplier
-  );
-
-  const spread = pricingRules.range_spread_pct / 100;
+/** The ± range around the central premium, and the premium at each excess option. */
+export function pricePremium(
+  annualPremium: number,
+  rules: { range_spread_pct: number; excess_options: { amount: number; label: string; discount_pct: number }[] }
+): Pick<QuoteResult, "premium_range_annual" | "premium_range_monthly" | "excess_options"> {
+  const spread = rules.range_spread_pct / 100;
   const annualMin = Math.round(annualPremium * (1 - spread));
   const annualMax = Math.round(annualPremium * (1 + spread));
   const monthlyMin = Math.round((annualMin / 12) * 1.05);
   const monthlyMax = Math.round((annualMax / 12) * 1.05);
 
-  const excessOptions: ExcessOption[] = pricingRules.excess_options.map(
-    (opt: { amount: number; label: string; discount_pct: number }) => {
-      const discountedAnnual = Math.round(
-        annualPremium * (1 - opt.discount_pct / 100)
-      );
-      return {
-        amount: opt.amount,
-        label: opt.label,
-        annual_premium: discountedAnnual,
-        monthly_premium: Math.round((discountedAnnual / 12) * 1.05),
-      };
-    }
-  );
+  const excessOptions: ExcessOption[] = rules.excess_options.map((opt) => {
+    const discountedAnnual = Math.round(
+      annualPremium * (1 - opt.discount_pct / 100)
+    );
+    return {
+      amount: opt.amount,
+      label: opt.label,
+      annual_premium: discountedAnnual,
+      monthly_premium: Math.round((discountedAnnual / 12) * 1.05),
+    };
+  });
+
+  return {
+    premium_range_annual: { min: annualMin, max: annualMax },
+    premium_range_monthly: { min: monthlyMin, max: monthlyMax },
+    excess_options: excessOptions,
+  };
+}
 
+/** Quotes are valid for 30 days (YYYY-MM-DD). */
+export function quoteValidUntil(): string {
   const validUntil = new Date();
   validUntil.setDate(validUntil.getDate() + 30);
+  return validUntil.toISOString().split("T")[0];
+}
+
+export function calculateQuote(input: QuoteInput): QuoteResult {
+  const { pricingRules } = getRatingData();
+  const coverType = input.cover_type ?? "comprehensive";
+  const cover = pricingRules.cover_types[coverType];
+  const vehicleInfo = getVehicleInfo(input.vehicle_make, input.vehicle_model);
+  const category = vehicleInfo?.category ?? FALLBACK_CATEGORY;
+  const baseValue = vehicleInfo?.base_value ?? FALLBACK_BASE_VALUE;
+  const estimatedValue = depreciate(baseValue, input.vehicle_year);
+
+  const baseRate = cover.base_rates[category];
+  const basePremium = (baseRate.min + baseRate.max) / 2;
+
+  const drivers = allDrivers(input);
+  const rated = ratedDriver(drivers);
+  const ratedName = rated.driver === 0 ? "" : ` (driver ${rated.driver + 1}, the highest-risk driver)`;
+  const ageBracket = getAgeBracket(rated.driver_age);
+  const riskZone = getPostcodeRiskZone(input.postcode);
+  const vehicleAgeBracket = getVehicleAgeBracket(input.vehicle_year);
+
+  const breakdown = buildBreakdown(category, basePremium, [
+    {
+      factor: "driver_age",
+      label: "Driver age",
+      bracket: formatRange(ageBracket.min_age, ageBracket.max_age, "age") + ratedName,
+      multiplier: ageBracket.multiplier,
+    },
+    {
+      factor: "claims",
+      label: "Claims history",
+      bracket: `${rated.claims_last_5_years} at-fault claim${rated.claims_last_5_years === 1 ? "" : "s"} in 5 years${ratedName}`,
+      multiplier: getClaimsMultiplier(rated.claims_last_5_years),
+    },
+    {
+      factor: "postcode",
+      label: "Postcode risk",
+      bracket: `postcode ${input.postcode} → ${riskZone}`,
+      multiplier: pricingRules.postcode_risk_multipliers[riskZone],
+    },
+    {
+      factor: "parking",
+      label: "Overnight parking",
+      bracket: input.parking_type,
+      multiplier: pricingRules.parking_multipliers[input.parking_type],
+    },
+    {
+      factor: "vehicle_age",
+      label: "Vehicle age",
+      bracket: `built ${input.vehicle_year} → ${formatRange(vehicleAgeBracket.min_years, vehicleAgeBracket.max_years, "").trim()} years old`,
+      multiplier: vehicleAgeBracket.multiplier,
+    },
+    ...(input.is_racv_member
+      ? [{
+          factor: "member_discount" as const,
+          label: "RACV member discount",
+          bracket: `${pricingRules.member_discount_pct}% off`,
+          multiplier: 1 - pricingRules.member_discount_pct / 100,
+        }]
+      : []),
+  ]);
+  const prices = pricePremium(breakdown.annual_premium, {
+    range_spread_pct: pricingRules.range_spread_pct,
+    excess_options: cover.excess_options,
+  });
 
   return {
     quote_id: `RACV-${randomUUID().slice(0, 8).toUpperCase()}`,
-    premium_range_annual: { min: annualMin, max: annualMax },
-    premium_range_monthly: { min: monthlyMin, max: monthlyMax },
-    excess_options: excessOptions,
-    coverage_summary: pricingRules.coverage_highlights,
+    cover_type: coverType,
+    cover_label: cover.label,
+    ...prices,
+    coverage_summary: cover.coverage_highlights,
     member_discount_available: true,
     member_discount_pct: pricingRules.member_discount_pct,
-    valid_until: validUntil.toISOString().split("T")[0],
+    member_discount_applied: Boolean(input.is_racv_member),
+    valid_until: quoteValidUntil(),
     vehicle: {
       make: input.vehicle_make,
       model: input.vehicle_model,
       year: input.vehicle_year,
       category,
       estimated_value: estimatedValue,
+      in_catalogue: vehicleInfo !== null,
     },
     risk_zone: riskZone,
+    rated_driver: rated,
+    driver_excesses: getDriverExcesses(drivers),
+    breakdown,
+    pricing_version: pricingRules.version,
+    pricing_effective_from: pricingRules.effective_from,
+    warnings: vehicleInfo ? [] : [vehicleFallbackWarning(input.vehicle_make, input.vehicle_model)],
     disclaimers: [
       "This is an indicative quote only and is not a binding offer of insurance.",
       "Final premium will be determined upon completion of a full application on racv.com.au.",
-      "RACV Comprehensive Car Insurance is issued by Insurance Manufacturers of Australia Pty Ltd (IMA) ABN 93 004 208 084, AFS Licence No. 227678.",
+      `RACV ${cover.label} Car Insurance is issued by Insurance Manufacturers of Australia Pty Ltd (IMA) ABN 93 004 208 084, AFS Licence No. 227678.`,
       "Please refer to the Product Disclosure Statement (PDS) for full terms, conditions and exclusions at racv.com.au/pds.",
       "This information is general in nature and does not constitute personal financial advice."
     ],
@@ -0,0 +1,156 @@
+import { resolve } from "path";
+import type { MotorQuoteRequest } from "../providers/quote-provider.js";
+import { readJsonRecords, writeJsonRecords } from "./json-file.js";
+import { SESSION_TTL_MS } from "./session-store.js";
+
+/**
+ * Motor quote details gathered a few at a time over a conversation, one draft per
+ * MCP session, so the model doesn't have to carry and resend every field. Drafts
+ * live only as long as their session, and are kept wherever sessions are (see
+ * SESSION_STORE), so a session restored after a restart still has its draft.
+ */
+
+export type QuoteDraftFields = Partial<MotorQuoteRequest>;
+
+export interface QuoteDraft {
+  session_id: string;
+  fields: QuoteDraftFields;
+  created_at: string;
+  updated_at: string;
+  /** The most recent quote submitted from this draft. */
+  last_quote_id?: string;
+}
+
+/**
+ * Backing store for quote drafts, keyed by session ID.
+ * Implementations must be safe to call from concurrent tool handlers: models often
+ * call update_quote_draft several times in parallel, so changes go through update(),
+ * which applies them one at a time per session.
+ */
+export interface QuoteDraftStore {
+  get(sessionId: string): Promise<QuoteDraft | undefined>;
+  save(draft: QuoteDraft): Promise<void>;
+  delete(sessionId: string): Promise<boolean>;
+  purgeExpired(now?: Date): Promise<number>;
+  /** Apply `change` to the session's current draft (a new one if it has none) and save the result. */
+  update(sessionId: string, change: (draft: QuoteDraft) => QuoteDraft | Promise<QuoteDraft>): Promise<QuoteDraft>;
+}
+
+// A draft untouched for as long as a session can sit idle has no session to come back to
+export function isQuoteDraftExpired(draft: QuoteDraft, now: Date = new Date()): boolean {
+  return new Date(draft.updated_at).getTime() + SESSION_TTL_MS < now.getTime();
+}
+
+function newDraft(sessionId: string): QuoteDraft {
+  const now = new Date().toISOString();
+  return { session_id: sessionId, fields: {}, created_at: now, updated_at: now };
+}
+
+export class MemoryQuoteDraftStore implements QuoteDraftStore {
+  protected drafts = new Map<string, QuoteDraft>();
+  // The last queued update per session; the next one waits for it
+  private updates = new Map<string, Promise<QuoteDraft>>();
+
+  async get(sessionId: string): Promise<QuoteDraft | undefined> {
+    return this.drafts.get(sessionId);
+  }
+
+  async save(draft: QuoteDraft): Promise<void> {
+    this.drafts.set(draft.session_id, draft);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.drafts.delete(sessionId);
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    let purged = 0;
+    for (const [id, draft] of this.drafts) {
+      if (isQuoteDraftExpired(draft, now)) {
+        this.drafts.delete(id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  update(sessionId: string, change: (draft: QuoteDraft) => QuoteDraft | Promise<QuoteDraft>): Promise<QuoteDraft> {
+    const previous = this.updates.get(sessionId);
+    const next = (previous ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const updated = await change((await this.get(sessionId)) ?? newDraft(sessionId));
+        await this.save(updated);
+        return updated;
+      });
+    this.updates.set(sessionId, next);
+    const forget = () => {
+      if (this.updates.get(sessionId) === next) this.updates.delete(sessionId);
+    };
+    next.then(forget, forget);
+    return next;
+  }
+}
+
+/** Keeps drafts in memory and mirrors them to a JSON file so they survive a restart. */
+export class FileQuoteDraftStore extends MemoryQuoteDraftStore {
+  constructor(private readonly filePath: string) {
+    super();
+    for (const draft of readJsonRecords<QuoteDraft>(filePath)) {
+      this.drafts.set(draft.session_id, draft);
+    }
+  }
+
+  async save(draft: QuoteDraft): Promise<void> {
+    await super.save(draft);
+    this.flush();
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const deleted = await super.delete(sessionId);
+    if (deleted) this.flush();
+    return deleted;
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const purged = await super.purgeExpired(now);
+    if (purged > 0) this.flush();
+    return purged;
+  }
+
+  private flush(): void {
+    writeJsonRecords(this.filePath, this.drafts.values());
+  }
+}
+
+function createQuoteDraftStore(): QuoteDraftStore {
+  // Follows SESSION_STORE unless set, so restored sessions find their drafts
+  const kind = (process.env.QUOTE_DRAFT_STORE || process.env.SESSION_STORE || "memory").toLowerCase();
+  if (kind === "file") {
+    const filePath = resolve(process.env.QUOTE_DRAFT_STORE_PATH || ".data/quote-drafts.json");
+    console.error(`[QuoteDraftStore] Persisting quote drafts to ${filePath}`);
+    return new FileQuoteDraftStore(filePath);
+  }
+  if (kind !== "memory") {
+    console.error(`[QuoteDraftStore] Unknown QUOTE_DRAFT_STORE "${kind}", using in-memory store`);
+  }
+  return new MemoryQuoteDraftStore();
+}
+
+let store: QuoteDraftStore | null = null;
+
+export function getQuoteDraftStore(): QuoteDraftStore {
+  if (!store) {
+    store = createQuoteDraftStore();
+  }
+  return store;
+}
+
+export function setQuoteDraftStore(custom: QuoteDraftStore): void {
+  store = custom;
+}
+
+/** The session's draft, or a new empty one (not yet saved). */
+export async function loadQuoteDraft(sessionId: string): Promise<QuoteDraft> {
+  return (await getQuoteDraftStore().get(sessionId)) ?? newDraft(sessionId);
+}
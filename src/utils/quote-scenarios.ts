@@ -0,0 +1,143 @@
+import { calculateQuote, getCoverLabel, getExcessAmounts, DriverExcess, QuoteInput } from "./quote-calculator.js";
+import type { CoverType } from "./rating-data.js";
+
+/** One "what if" change to the base quote. Unset fields keep the base value. */
+export interface QuoteVariation {
+  label?: string;
+  cover_type?: CoverType;
+  parking_type?: QuoteInput["parking_type"];
+  /** Defaults to the base excess, or the new cover's standard excess if that cover doesn't offer it. */
+  excess?: number;
+  is_racv_member?: boolean;
+  /** Additional drivers to leave off, numbered as in driver_excesses: 1 = additional_drivers[0]. */
+  remove_drivers?: number[];
+}
+
+export interface ScenarioPrice {
+  label: string;
+  cover_type: CoverType;
+  parking_type: QuoteInput["parking_type"];
+  excess: number;
+  is_racv_member: boolean;
+  drivers: number;
+  annual_premium: number;
+  monthly_premium: number;
+  /** Difference from the base scenario; negative means cheaper. */
+  annual_delta: number;
+  monthly_delta: number;
+  annual_delta_pct: number;
+  driver_excesses: DriverExcess[];
+}
+
+export interface ScenarioComparison {
+  base: ScenarioPrice;
+  scenarios: ScenarioPrice[];
+  /** Label of the cheapest option, base included. */
+  cheapest: string;
+}
+
+const PARKING_LABELS: Record<QuoteInput["parking_type"], string> = {
+  garage: "Garaged",
+  carport: "Carport",
+  driveway: "Driveway",
+  street: "Street parked",
+};
+
+function describeVariation(variation: QuoteVariation): string {
+  const parts: string[] = [];
+  if (variation.cover_type) parts.push(getCoverLabel(variation.cover_type));
+  if (variation.parking_type) parts.push(PARKING_LABELS[variation.parking_type]);
+  if (variation.excess !== undefined) parts.push(`$${variation.excess.toLocaleString()} excess`);
+  if (variation.is_racv_member !== undefined) parts.push(variation.is_racv_member ? "RACV member" : "Not a member");
+  if (variation.remove_drivers?.length) {
+    parts.push(`Without driver ${variation.remove_drivers.map((d) => d + 1).join(" & ")}`);
+  }
+  return parts.join(", ") || "No change";
+}
+
+function priceScenario(
+  label: string,
+  input: QuoteInput,
+  excess: number
+): Omit<ScenarioPrice, "annual_delta" | "monthly_delta" | "annual_delta_pct"> {
+  const quote = calculateQuote(input);
+  const option = quote.excess_options.find((opt) => opt.amount === excess)!;
+  return {
+    label,
+    cover_type: quote.cover_type,
+    parking_type: input.parking_type,
+    excess,
+    is_racv_member: Boolean(input.is_racv_member),
+    drivers: 1 + (input.additional_drivers?.length ?? 0),
+    annual_premium: option.annual_premium,
+    monthly_premium: option.monthly_premium,
+    driver_excesses: quote.driver_excesses,
+  };
+}
+
+/**
+ * Problems with the variations (unknown excess, removing a driver that doesn't
+ * exist), or an empty list if they can all be priced.
+ */
+export function validateVariations(base: QuoteInput, baseExcess: number, variations: QuoteVariation[]): string[] {
+  const driverCount = base.additional_drivers?.length ?? 0;
+  const problems: string[] = [];
+  const notOffered = (excess: number, coverType: CoverType) =>
+    `$${excess} is not offered with ${getCoverLabel(coverType)} cover; choose one of ${getExcessAmounts(coverType).map((a) => `$${a}`).join(", ")}`;
+
+  const baseCover = base.cover_type ?? "comprehensive";
+  if (!getExcessAmounts(baseCover).includes(baseExcess)) {
+    problems.push(`Excess ${notOffered(baseExcess, baseCover)}`);
+  }
+  variations.forEach((variation, i) => {
+    const name = variation.label ? `"${variation.label}"` : `Scenario ${i + 1}`;
+    const coverType = variation.cover_type ?? baseCover;
+    if (variation.excess !== undefined && !getExcessAmounts(coverType).includes(variation.excess)) {
+      problems.push(`${name}: excess ${notOffered(variation.excess, coverType)}`);
+    }
+    for (const driver of variation.remove_drivers ?? []) {
+      if (driver < 1 || driver > driverCount) {
+        problems.push(`${name}: there is no additional driver ${driver} to remove (${driverCount} given)`);
+      }
+    }
+  });
+  return problems;
+}
+
+/** Price the base quote and each variation side by side. Call validateVariations first. */
+export function compareQuoteScenarios(
+  base: QuoteInput,
+  baseExcess: number,
+  variations: QuoteVariation[]
+): ScenarioComparison {
+  const basePrice = priceScenario("Current", base, baseExcess);
+
+  const withDelta = (price: ReturnType<typeof priceScenario>): ScenarioPrice => {
+    const annualDelta = price.annual_premium - basePrice.annual_premium;
+    return {
+      ...price,
+      annual_delta: annualDelta,
+      monthly_delta: price.monthly_premium - basePrice.monthly_premium,
+      annual_delta_pct: Math.round((annualDelta / basePrice.annual_premium) * 1000) / 10,
+    };
+  };
+
+  const scenarios = variations.map((variation) => {
+    const removed = new Set(variation.remove_drivers ?? []);
+    const input: QuoteInput = {
+      ...base,
+      cover_type: variation.cover_type ?? base.cover_type,
+      parking_type: variation.parking_type ?? base.parking_type,
+      is_racv_member: variation.is_racv_member ?? base.is_racv_member,
+      additional_drivers: base.additional_drivers?.filter((_, i) => !removed.has(i + 1)),
+    };
+    const excessAmounts = getExcessAmounts(input.cover_type);
+    const excess = variation.excess ?? (excessAmounts.includes(baseExcess) ? baseExcess : excessAmounts[0]);
+    return withDelta(priceScenario(variation.label || describeVariation(variation), input, excess));
+  });
+
+  const all = [withDelta(basePrice), ...scenarios];
+  const cheapest = all.reduce((a, b) => (b.annual_premium < a.annual_premium ? b : a));
+
+  return { base: all[0], scenarios, cheapest: cheapest.label };
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from "crypto";
+import { resolve } from "path";
+import type { QuoteInput, QuoteResult } from "./quote-calculator.js";
+import type { RacvQuoteInput, RacvQuoteResult } from "./racv-scraper.js";
+import type { MotorcycleQuoteInput, MotorcycleQuoteResult } from "./motorcycle-calculator.js";
+import type { CaravanQuoteInput, CaravanQuoteResult } from "./caravan-calculator.js";
+import type { Product } from "./products.js";
+import { readJsonRecords, writeJsonRecords } from "./json-file.js";
+
+export type QuoteSource = "live" | "estimate";
+
+export interface StoredQuote {
+  quote_id: string;
+  source: QuoteSource;
+  input: QuoteInput | RacvQuoteInput | MotorcycleQuoteInput | CaravanQuoteInput;
+  result: QuoteResult | RacvQuoteResult | MotorcycleQuoteResult | CaravanQuoteResult;
+  created_at: string;
+  valid_until: string;
+}
+
+/**
+ * Backing store for quotes issued by the quoting tools.
+ * Implementations must be safe to call from concurrent tool handlers.
+ */
+export interface QuoteStore {
+  save(quote: StoredQuote): Promise<void>;
+  get(quoteId: string): Promise<StoredQuote | undefined>;
+  delete(quoteId: string): Promise<boolean>;
+  purgeExpired(now?: Date): Promise<number>;
+}
+
+export function generateQuoteId(): string {
+  return `RACV-${randomUUID().slice(0, 8).toUpperCase()}`;
+}
+
+/**
+ * valid_until is either a full ISO timestamp or a bare date (YYYY-MM-DD) from the
+ * rating engine. A bare date is valid until the end of that day.
+ */
+export function quoteExpiry(quote: StoredQuote): Date {
+  const value = /^\d{4}-\d{2}-\d{2}$/.test(quote.valid_until)
+    ? `${quote.valid_until}T23:59:59.999Z`
+    : quote.valid_until;
+  return new Date(value);
+}
+
+/** Which product a stored quote is for; quotes saved before other products existed are cars. */
+export function quoteProduct(quote: StoredQuote): Product {
+  if ("product" in quote.result && quote.result.product) return quote.result.product;
+  if ("product" in quote.input && quote.input.product) return quote.input.product;
+  return "car";
+}
+
+export function isQuoteExpired(quote: StoredQuote, now: Date = new Date()): boolean {
+  return quoteExpiry(quote).getTime() < now.getTime();
+}
+
+export class MemoryQuoteStore implements QuoteStore {
+  protected quotes = new Map<string, StoredQuote>();
+
+  async save(quote: StoredQuote): Promise<void> {
+    this.quotes.set(quote.quote_id, quote);
+  }
+
+  async get(quoteId: string): Promise<StoredQuote | undefined> {
+    return this.quotes.get(quoteId.toUpperCase());
+  }
+
+  async delete(quoteId: string): Promise<boolean> {
+    return this.quotes.delete(quoteId.toUpperCase());
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    let purged = 0;
+    for (const [id, quote] of this.quotes) {
+      if (isQuoteExpired(quote, now)) {
+        this.quotes.delete(id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+/** Keeps quotes in memory and mirrors them to a JSON file so they survive a restart. */
+export class FileQuoteStore extends MemoryQuoteStore {
+  constructor(private readonly filePath: string) {
+    super();
+    for (const quote of readJsonRecords<StoredQuote>(filePath)) {
+      this.quotes.set(quote.quote_id, quote);
+    }
+  }
+
+  async save(quote: StoredQuote): Promise<void> {
+    await super.save(quote);
+    this.flush();
+  }
+
+  async delete(quoteId: string): Promise<boolean> {
+    const deleted = await super.delete(quoteId);
+    if (deleted) this.flush();
+    return deleted;
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const purged = await super.purgeExpired(now);
+    if (purged > 0) this.flush();
+    return purged;
+  }
+
+  private flush(): void {
+    writeJsonRecords(this.filePath, this.quotes.values());
+  }
+}
+
+function createQuoteStore(): QuoteStore {
+  const kind = (process.env.QUOTE_STORE || "memory").toLowerCase();
+  if (kind === "file") {
+    const filePath = resolve(process.env.QUOTE_STORE_PATH || ".data/quotes.json");
+    console.error(`[QuoteStore] Persisting quotes to ${filePath}`);
+    return new FileQuoteStore(filePath);
+  }
+  if (kind !== "memory") {
+    console.error(`[QuoteStore] Unknown QUOTE_STORE "${kind}", using in-memory store`);
+  }
+  return new MemoryQuoteStore();
+}
+
+let store: QuoteStore | null = null;
+
+export function getQuoteStore(): QuoteStore {
+  if (!store) {
+    store = createQuoteStore();
+  }
+  return store;
+}
+
+export function setQuoteStore(custom: QuoteStore): void {
+  store = custom;
+}
+
+export async function storeQuote(quote: Omit<StoredQuote, "created_at">): Promise<StoredQuote> {
+  const stored: StoredQuote = { ...quote, created_at: new Date().toISOString() };
+  await getQuoteStore().save(stored);
+  return stored;
+}
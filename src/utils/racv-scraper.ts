@@ -1,8 +1,24 @@
-import { chromium, Browser, Page, BrowserContext } from "playwright";
+import { Page, BrowserContext } from "playwright";
+import { getBrowserPool, shutdownBrowserPool, BrowserLease } from "./browser-pool.js";
+import { extractPremiums } from "./premium-extractor.js";
+import { normaliseRego } from "./rego.js";
+import type { CoverType } from "./rating-data.js";
+import { getCoverLabel } from "./quote-calculator.js";
+import { PRODUCT_INFO, Product } from "./products.js";
+
+export interface RacvDriver {
+  driver_age: number;
+  driver_gender: "male" | "female";
+  licence_age: number;
+  claims_last_5_years: number;
+}
 
 export interface RacvQuoteInput {
   rego: string;
   address: string;         // Full street address e.g. "80 Bourke Street, Melbourne VIC 3000"
+  /** Parsed from the address; used to pick the right autocomplete suggestion. */
+  suburb?: string;
+  postcode?: string;
   driver_age: number;
   driver_gender: "male" | "female";
   licence_age: number;     // Age when licence was obtained
@@ -10,14 +26,23 @@ export interface RacvQuoteInput {
   is_racv_member?: boolean;
   under_finance?: boolean;
   purpose?: "Private" | "Business use & not registered for GST" | "Business use & registered for GST";
+  /** Other people who drive the car; filled into driver blocks 1, 2, ... on the About You step. */
+  additional_drivers?: RacvDriver[];
+  /** Selected on the result page, which shows comprehensive first. Defaults to comprehensive. */
+  cover_type?: CoverType;
+  /** Which RACV quote form to drive (its `p=` code). Defaults to car. */
+  product?: Product;
 }
 
 export interface RacvQuoteResult {
   success: boolean;
+  product?: Product;
+  cover_type?: CoverType;
   vehicle_description?: string;
   annual_premium?: number;
   monthly_premium?: number;
   excess_amount?: number;
+  driver_excesses?: { type: "age" | "inexperienced"; label: string; amount: number }[];
   raw_amounts?: string[];
   screenshot_path?: string;
   error?: string;
@@ -33,25 +58,47 @@ interface VehicleInfo {
   description: string;
 }
 
-const RACV_URL = "https://my.racv.com.au/s/motor-insurance?p=CAR";
+export interface RacvScrapeOptions {
+  /** Site to drive instead of my.racv.com.au, e.g. the local mock in src/mock/. */
+  baseUrl?: string;
+  /** Called as the scraper moves through the RACV form. */
+  onProgress?: (event: RacvProgressEvent) => void;
+}
 
-let browser: Browser | null = null;
+export type RacvStep = "queued" | "rego_lookup" | "your_car" | "about_you" | "quote_result" | "retry";
 
-async function getBrowser(): Promise<Browser> {
-  if (!browser || !browser.isConnected()) {
-    browser = await chromium.launch({
-      headless: false,
-      slowMo: 100,
-    });
-  }
-  return browser;
+export interface RacvProgressEvent {
+  step: RacvStep;
+  message: string;
+  /** Set on "retry" events. */
+  attempt?: number;
+  /** Set on "queued" events: 1 means next in line. */
+  queue_position?: number;
 }
 
+type ProgressReporter = (event: RacvProgressEvent) => void;
+
+const DEFAULT_RACV_BASE_URL = "https://my.racv.com.au";
+
+// How each cover is labelled on the result page's cover buttons / tabs
+const COVER_TYPE_LABELS: Record<CoverType, RegExp> = {
+  comprehensive: /^\s*comprehensive\b/i,
+  third_party_fire_theft: /third party,? fire (?:and|&) theft/i,
+  third_party_property: /third party property/i,
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Car, motorcycle and caravan quotes share one form; the product is chosen by `p=`
+function racvQuoteUrl(baseUrl: string, product: Product = "car"): string {
+  return `${baseUrl.replace(/\/+$/, "")}/s/motor-insurance?p=${PRODUCT_INFO[product].racv_code}`;
+}
+
+/** Shut down the shared browser pool (see browser-pool.ts). */
 export async function closeBrowser(): Promise<void> {
-  if (browser) {
-    await browser.close();
-    browser = null;
-  }
+  await shutdownBrowserPool();
 }
 
 /**
@@ -84,6 +131,44 @@ async function lwcRadioClick(page: Page, selector: string): Promise<void> {
   }
 }
 
+/**
+ * Fill one driver block on the About You step. RACV suffixes each driver's fields
+ * with its index: 0 is the main driver, additional drivers are 1, 2, ...
+ */
+async function fillDriverDetails(page: Page, index: number, driver: RacvDriver): Promise<void> {
+  // Gender
+  const genderValue = driver.driver_gender === "male" ? "Male" : "Female";
+  await lwcRadioClick(page, `input[name='driverSex${index}'][value='${genderValue}']`);
+
+  // Age
+  const ageInput = page.locator(`input[name='age${index}']`);
+  if (await ageInput.isVisible({ timeout: 2000 }).catch(() => false)) {
+    await lwcType(page, `input[name='age${index}']`, String(driver.driver_age));
+  }
+
+  // Licence age
+  const licenceInput = page.locator(`input[name='driverAge${index}']`);
+  if (await licenceInput.isVisible({ timeout: 2000 }).catch(() => false)) {
+    await lwcType(page, `input[name='driverAge${index}']`, String(driver.licence_age));
+  }
+
+  // Claims
+  if (driver.claims_last_5_years === 0) {
+    await lwcRadioClick(page, `input[name='hasClaims${index}'][value='No']`);
+  } else {
+    await lwcRadioClick(page, `input[name='hasClaims${index}'][value='Yes']`);
+    await page.waitForTimeout(500);
+    let claimsCountSelect = page.locator(`select[name*='claim' i][name$='${index}']`);
+    if (!(await claimsCountSelect.isVisible({ timeout: 2000 }).catch(() => false))) {
+      claimsCountSelect = page.locator("select[name*='claim' i]").nth(index);
+    }
+    if (await claimsCountSelect.isVisible({ timeout: 2000 }).catch(() => false)) {
+      await claimsCountSelect.selectOption(String(driver.claims_last_5_years));
+      await page.waitForTimeout(300);
+    }
+  }
+}
+
 /**
  * Extract vehicle info from RACV Aura API response.
  * RACV makes two calls: rego lookup (usually succeeds) and HUON info (often fails).
@@ -115,13 +200,64 @@ function extractVehicleFromAuraResponse(responseBody: string): VehicleInfo | nul
   }
 }
 
-export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteResult> {
+export async function scrapeRacvQuote(
+  input: RacvQuoteInput,
+  options: RacvScrapeOptions = {}
+): Promise<RacvQuoteResult> {
+  const racvUrl = racvQuoteUrl(options.baseUrl || process.env.RACV_BASE_URL || DEFAULT_RACV_BASE_URL, input.product);
+  const pool = getBrowserPool();
+  const report: ProgressReporter = (event) => {
+    try {
+      options.onProgress?.(event);
+    } catch (error) {
+      console.error("[RACV] Progress listener failed:", error);
+    }
+  };
+
+  // A browser crash mid-quote gets one retry on a freshly launched browser
+  for (let attempt = 1; ; attempt++) {
+    let lease: BrowserLease;
+    try {
+      lease = await pool.acquire({
+        onQueued: (position) => report({
+          step: "queued",
+          message: `Waiting for a free browser (position ${position} in the queue)`,
+          queue_position: position,
+        }),
+        contextOptions: { viewport: { width: 1280, height: 900 } },
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: `Scraper error: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+
+    let result: RacvQuoteResult;
+    try {
+      result = await scrapeWithContext(lease.context, input, racvUrl, report);
+    } finally {
+      await lease.release();
+    }
+
+    if (!result.success && !lease.browser.isConnected() && attempt < 2) {
+      console.error("[RACV] Browser crashed during the quote, retrying on a new browser");
+      report({ step: "retry", message: "The browser crashed, starting the quote again", attempt: attempt + 1 });
+      continue;
+    }
+    return result;
+  }
+}
+
+async function scrapeWithContext(
+  context: BrowserContext,
+  input: RacvQuoteInput,
+  racvUrl: string,
+  report: ProgressReporter
+): Promise<RacvQuoteResult> {
   let page: Page | null = null;
-  let context: BrowserContext | null = null;
 
   try {
-    const b = await getBrowser();
-    context = await b.newContext({ viewport: { width: 1280, height: 900 } });
     page = await context.newPage();
 
     await page.route(
@@ -151,7 +287,8 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
 
     // ── STEP 1: Navigate & rego lookup ──
     console.log("[RACV] Navigating to quote page...");
-    await page.goto(RACV_URL, { waitUntil: "domcontentloaded", timeout: 30000 });
+    report({ step: "rego_lookup", message: `Looking up registration ${input.rego} on the RACV website` });
+    await page.goto(racvUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
     await page.waitForTimeout(10000);
 
     let vehicleDesc = "";
@@ -159,13 +296,14 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
       console.log(`[RACV] Entering rego (attempt ${attempt})...`);
 
       if (attempt > 1) {
+        report({ step: "retry", message: `Vehicle lookup didn't respond, retrying (attempt ${attempt} of 3)`, attempt });
         // Check if "Search by Registration instead" link exists
         const regoLink = page.locator("a, button").filter({ hasText: /search by registration/i });
         if (await regoLink.isVisible({ timeout: 2000 }).catch(() => false)) {
           await regoLink.click();
           await page.waitForTimeout(3000);
         } else {
-          await page.goto(RACV_URL, { waitUntil: "domcontentloaded", timeout: 30000 });
+          await page.goto(racvUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
           await page.waitForTimeout(10000);
         }
       }
@@ -177,7 +315,7 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
       await page.waitForTimeout(300);
       await page.keyboard.press("Meta+a");
       await page.keyboard.press("Backspace");
-      await page.keyboard.type(input.rego, { delay: 80 });
+      await page.keyboard.type(normaliseRego(input.rego), { delay: 80 });
       await page.waitForTimeout(500);
 
       // Click Find Your car and capture API response
@@ -375,6 +513,7 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
 
     // ── STEP 2: YOUR CAR details ──
     console.log("[RACV] Filling car details...");
+    report({ step: "your_car", message: `Found ${vehicleDesc}; entering car and address details` });
 
     // Address
     const addrInput = page.locator("input[name='addressSearch']");
@@ -385,11 +524,21 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
     await page.keyboard.type(input.address, { delay: 60 });
     await page.waitForTimeout(3000);
 
-    // Select first autocomplete suggestion
-    const suggestion = page.locator("[role='option'], [role='listbox'] li, .slds-listbox__option, ul li")
-      .filter({ hasText: new RegExp(input.address.split(" ")[0], "i") });
-    if (await suggestion.first().isVisible({ timeout: 3000 }).catch(() => false)) {
-      await suggestion.first().click();
+    // Select the autocomplete suggestion in the right suburb/postcode, falling back to
+    // the first one that matches the start of the address
+    const suggestions = page.locator("[role='option'], [role='listbox'] li, .slds-listbox__option, ul li")
+      .filter({ hasText: new RegExp(escapeRegExp(input.address.split(" ")[0]), "i") });
+    if (await suggestions.first().isVisible({ timeout: 3000 }).catch(() => false)) {
+      let choice = suggestions.first();
+      for (const wanted of [input.postcode, input.suburb]) {
+        if (!wanted) continue;
+        const matching = suggestions.filter({ hasText: new RegExp(`\\b${escapeRegExp(wanted)}\\b`, "i") });
+        if ((await matching.count()) > 0) {
+          choice = matching.first();
+          break;
+        }
+      }
+      await choice.click();
       await page.waitForTimeout(1000);
     }
 
@@ -430,6 +579,7 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
 
     // ── STEP 3: ABOUT YOU ──
     console.log("[RACV] Filling About You...");
+    report({ step: "about_you", message: "Entering driver details" });
 
     // RACV Member
     if (input.is_racv_member) {
@@ -438,33 +588,27 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
       await lwcRadioClick(page, "input[name='isMember0'][value='No']");
     }
 
-    // Gender
-    const genderValue = input.driver_gender === "male" ? "Male" : "Female";
-    await lwcRadioClick(page, `input[name='driverSex0'][value='${genderValue}']`);
+    await fillDriverDetails(page, 0, input);
 
-    // Age
-    const ageInput = page.locator("input[name='age0']");
-    if (await ageInput.isVisible({ timeout: 2000 }).catch(() => false)) {
-      await lwcType(page, "input[name='age0']", String(input.driver_age));
-    }
-
-    // Licence age
-    const licenceInput = page.locator("input[name='driverAge0']");
-    if (await licenceInput.isVisible({ timeout: 2000 }).catch(() => false)) {
-      await lwcType(page, "input[name='driverAge0']", String(input.licence_age));
-    }
-
-    // Claims
-    if (input.claims_last_5_years === 0) {
-      await lwcRadioClick(page, "input[name='hasClaims0'][value='No']");
-    } else {
-      await lwcRadioClick(page, "input[name='hasClaims0'][value='Yes']");
-      await page.waitForTimeout(500);
-      const claimsCountSelect = page.locator("select[name*='claim' i]");
-      if (await claimsCountSelect.isVisible({ timeout: 2000 }).catch(() => false)) {
-        await claimsCountSelect.selectOption(String(input.claims_last_5_years));
-        await page.waitForTimeout(300);
+    const additionalDrivers = input.additional_drivers ?? [];
+    for (let i = 1; i <= additionalDrivers.length; i++) {
+      console.log(`[RACV] Adding driver ${i + 1}...`);
+      const addBtn = page.locator("button, a").filter({ hasText: /add (?:another|a|additional) driver/i }).first();
+      if (await addBtn.isVisible({ timeout: 3000 }).catch(() => false)) {
+        await addBtn.scrollIntoViewIfNeeded();
+        await addBtn.click();
+      }
+      if (!(await page.locator(`input[name='age${i}']`).isVisible({ timeout: 5000 }).catch(() => false))) {
+        await page.screenshot({ path: "/tmp/racv-add-driver.png", fullPage: true });
+        return {
+          success: false,
+          vehicle_description: vehicleDesc,
+          error: `Could not add driver ${i + 1} on the RACV form.`,
+          step_reached: "about_you",
+          screenshot_path: "/tmp/racv-add-driver.png",
+        };
       }
+      await fillDriverDetails(page, i, additionalDrivers[i - 1]);
     }
 
     await page.screenshot({ path: "/tmp/racv-step3-filled.png", fullPage: true });
@@ -479,6 +623,7 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
 
     // Wait for the quote to load (with system error retry)
     console.log("[RACV] Waiting for quote calculation...");
+    report({ step: "quote_result", message: "Waiting for RACV to calculate the premium" });
     let quoteLoaded = false;
     for (let quoteAttempt = 0; quoteAttempt < 2; quoteAttempt++) {
       try {
@@ -495,6 +640,7 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
       const bodyCheck = await page.textContent("body") || "";
       if (/system error|technical problem/i.test(bodyCheck)) {
         console.log("[RACV] System error detected, clicking BACK TO FORM...");
+        report({ step: "retry", message: "RACV reported a system error, resubmitting the form", attempt: quoteAttempt + 2 });
         const backBtn = page.locator("button, a").filter({ hasText: /back to form/i });
         if (await backBtn.isVisible({ timeout: 3000 }).catch(() => false)) {
           await backBtn.click();
@@ -514,65 +660,71 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
 
     await page.screenshot({ path: "/tmp/racv-quote-result.png", fullPage: true });
 
+    // ── Cover type: the result page opens on comprehensive ──
+    const coverType = input.cover_type ?? "comprehensive";
+    let coverSelected = false;
+    if (coverType !== "comprehensive") {
+      const coverOption = page
+        .locator("button:visible, [role='tab']:visible, label:visible")
+        .filter({ hasText: COVER_TYPE_LABELS[coverType] })
+        .first();
+      if (await coverOption.isVisible({ timeout: 3000 }).catch(() => false)) {
+        console.log(`[RACV] Selecting cover: ${coverType}`);
+        report({ step: "quote_result", message: `Switching the quote to ${(await coverOption.textContent())?.trim()} cover` });
+        await coverOption.click();
+        await page.waitForTimeout(3000);
+        coverSelected = true;
+      }
+    }
+
     // ── STEP 4: Extract quote ──
     console.log("[RACV] Extracting premium...");
 
-    const resultText = await page.textContent("body") || "";
-
     const pageHeadings = await page.locator("h1:visible, h2:visible, h3:visible").allTextContents();
     console.log("[RACV] Page headings:", pageHeadings.filter(h => h.trim()).map(h => h.trim()).join(" | "));
 
-    const allAmounts = resultText.match(/\$[\d,]+(?:\.\d{2})?/g) || [];
-    console.log(`[RACV] Dollar amounts found: ${allAmounts.join(", ")}`);
-
-    let annualPremium: number | undefined;
-    let monthlyPremium: number | undefined;
-    let excessAmount: number | undefined;
-
-    // Pattern matching for labeled premiums
-    const premPatterns = [
-      { pattern: /\$([\d,]+(?:\.\d{2})?)\s*(?:per\s*year|\/\s*year|annually|p\.a\.|\/yr|\/Yearly)/i, type: "annual" },
-      { pattern: /(?:annual|yearly)\s*(?:premium|price|cost)[:\s]*\$([\d,]+(?:\.\d{2})?)/i, type: "annual" },
-      { pattern: /\$([\d,]+(?:\.\d{2})?)\s*(?:per\s*month|\/\s*month|\/Monthly|monthly|p\.m\.|\/mo)/i, type: "monthly" },
-      { pattern: /(?:monthly)\s*(?:premium|price|cost)[:\s]*\$([\d,]+(?:\.\d{2})?)/i, type: "monthly" },
-    ];
-
-    for (const { pattern, type } of premPatterns) {
-      const m = resultText.match(pattern);
-      if (m) {
-        const amount = parseFloat(m[1].replace(/,/g, ""));
-        if (type === "monthly") {
-          monthlyPremium = amount;
-        } else {
-          annualPremium = amount;
-        }
-      }
-    }
-
-    // Fallback: look for amounts in reasonable ranges
-    if (!annualPremium && !monthlyPremium) {
-      const numericAmounts = allAmounts
-        .map(a => parseFloat(a.replace(/[$,]/g, "")))
-        .filter(n => !isNaN(n));
-
-      const annualCandidates = numericAmounts.filter(n => n >= 300 && n <= 8000);
-      const monthlyCandidates = numericAmounts.filter(n => n >= 25 && n < 300);
-
-      if (annualCandidates.length > 0) annualPremium = annualCandidates[0];
-      if (monthlyCandidates.length > 0) monthlyPremium = monthlyCandidates[0];
+    const extraction = extractPremiums(await page.content(), { html: true, coverType });
+    const allAmounts = extraction.amounts.map(a => a.raw);
+    console.log(
+      `[RACV] Dollar amounts found: ${extraction.amounts.map(a => `${a.raw} (${a.kind} ${a.confidence})`).join(", ")}`
+    );
 
-      const excessCandidates = numericAmounts.filter(n => [650, 800, 1000, 1500].includes(n));
-      if (excessCandidates.length > 0) excessAmount = excessCandidates[0];
+    const annualPremium = extraction.annual?.amount;
+    const monthlyPremium = extraction.monthly?.amount;
+    const excessAmount = extraction.excess?.amount;
+    const driverExcesses = extraction.driver_excesses.map((a) => ({
+      type: /inexperienced/i.test(a.label) ? "inexperienced" as const : "age" as const,
+      label: a.label.replace(/[:\s]+$/, ""),
+      amount: a.amount,
+    }));
+
+    // A price from another tier, or the default comprehensive price when no cover
+    // option could be selected, is not a quote for the cover that was asked for
+    const wrongCover = extraction.cover_type
+      ? extraction.cover_type !== coverType
+      : coverType !== "comprehensive" && !coverSelected;
+    if ((annualPremium || monthlyPremium) && wrongCover) {
+      return {
+        success: false,
+        vehicle_description: vehicleDesc,
+        error: `RACV does not offer ${getCoverLabel(coverType)} cover online for this vehicle (the result page only priced ${getCoverLabel(extraction.cover_type)} cover)`,
+        step_reached: "quote_result",
+        raw_amounts: allAmounts,
+        screenshot_path: "/tmp/racv-quote-result.png",
+      };
     }
 
     if (annualPremium || monthlyPremium) {
       console.log(`[RACV] Quote: annual=$${annualPremium}, monthly=$${monthlyPremium}`);
       return {
         success: true,
+        product: input.product ?? "car",
+        cover_type: coverType,
         vehicle_description: vehicleDesc,
         annual_premium: annualPremium,
         monthly_premium: monthlyPremium,
         excess_amount: excessAmount,
+        driver_excesses: driverExcesses.length > 0 ? driverExcesses : undefined,
         raw_amounts: allAmounts,
         screenshot_path: "/tmp/racv-quote-result.png",
       };
@@ -614,8 +766,5 @@ export async function scrapeRacvQuote(input: RacvQuoteInput): Promise<RacvQuoteR
     if (page) {
       await page.close().catch(() => {});
     }
-    if (context) {
-      await context.close().catch(() => {});
-    }
   }
 }
@@ -0,0 +1,621 @@
+import { EventEmitter } from "events";
+import { existsSync, readFileSync, watch, FSWatcher } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import type { Product } from "./products.js";
+
+/**
+ * The rating data behind the estimators: vehicles.json, postcodes.json,
+ * pricing-rules.json (rates, excesses and highlights per cover type), the
+ * suburbs.json gazetteer, and the motorcycle and caravan catalogues and rules
+ * (motorcycles.json, motorcycle-rules.json, caravans.json, caravan-rules.json),
+ * plus the policy wording (pds-car.json, pds-motorcycle.json, pds-caravan.json)
+ * that coverage answers are drawn from. Each file is checked against a Zod schema and then
+ * cross-checked (brackets, postcode coverage, categories) so a bad edit fails
+ * loudly instead of silently pricing with defaults. Files can be hot-reloaded;
+ * a reload that fails validation keeps the previous data.
+ */
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const positive = z.number().positive();
+
+const vehicleSchema = z.object({
+  category: z.string().min(1),
+  base_value: positive,
+});
+
+export const vehiclesFileSchema = z.record(z.string(), z.record(z.string(), vehicleSchema));
+
+const riskZoneSchema = z.object({
+  label: z.string().min(1),
+  ranges: z.array(z.tuple([z.number().int(), z.number().int()])).default([]),
+  postcodes: z.array(z.string().regex(/^\d{4}$/)).default([]),
+});
+
+export const postcodesFileSchema = z.object({
+  risk_zones: z.record(z.string(), riskZoneSchema),
+  valid_prefix: z.string().regex(/^\d$/, "must be a single digit"),
+});
+
+export const suburbsFileSchema = z.object({
+  suburbs: z.array(z.object({ suburb: z.string().min(1), postcode: z.string().regex(/^\d{4}$/) })).min(1),
+});
+
+const ageBracketSchema = z.object({
+  min_age: z.number().int(),
+  max_age: z.number().int(),
+  multiplier: positive,
+});
+
+/** Cover levels RACV sells, from most to least cover. */
+export const COVER_TYPES = ["comprehensive", "third_party_fire_theft", "third_party_property"] as const;
+export type CoverType = (typeof COVER_TYPES)[number];
+
+const baseRatesSchema = z.record(z.string(), z.object({ min: positive, max: positive }));
+
+const excessOptionsSchema = z
+  .array(z.object({ amount: positive, label: z.string().min(1), discount_pct: z.number().min(0).max(100) }))
+  .min(1);
+
+const claimsMultipliersSchema = z.record(z.string().regex(/^\d+$/), positive);
+
+const versionFields = {
+  version: z.string().min(1),
+  effective_from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a date (YYYY-MM-DD)"),
+};
+
+const coverTypeSchema = z.object({
+  label: z.string().min(1),
+  base_rates: baseRatesSchema,
+  excess_options: excessOptionsSchema,
+  coverage_highlights: z.array(z.string()),
+});
+
+const vehicleAgeBracketSchema = z.object({
+  min_years: z.number().int().min(0),
+  max_years: z.number().int(),
+  multiplier: positive,
+});
+
+export const pricingRulesFileSchema = z.object({
+  ...versionFields,
+  age_multipliers: z.array(ageBracketSchema).min(1),
+  claims_multipliers: claimsMultipliersSchema,
+  postcode_risk_multipliers: z.record(z.string(), positive),
+  parking_multipliers: z.object({
+    garage: positive,
+    carport: positive,
+    driveway: positive,
+    street: positive,
+  }),
+  vehicle_age_adjustments: z.array(vehicleAgeBracketSchema).min(1),
+  driver_excesses: z.array(
+    z.object({
+      type: z.enum(["age", "inexperienced"]),
+      label: z.string().min(1),
+      min_age: z.number().int(),
+      max_age: z.number().int(),
+      max_years_licensed: z.number().int().min(0).optional(),
+      amount: positive,
+    })
+  ),
+  member_discount_pct: z.number().min(0).max(100),
+  range_spread_pct: z.number().min(0).max(100),
+  cover_types: z.object({
+    comprehensive: coverTypeSchema,
+    third_party_fire_theft: coverTypeSchema,
+    third_party_property: coverTypeSchema,
+  }),
+});
+
+export const motorcyclesFileSchema = vehiclesFileSchema;
+
+export const motorcycleRulesFileSchema = z.object({
+  ...versionFields,
+  base_rates: baseRatesSchema,
+  age_multipliers: z.array(ageBracketSchema).min(1),
+  /** Keyed on years since the rider was licensed. */
+  experience_multipliers: z.array(vehicleAgeBracketSchema).min(1),
+  claims_multipliers: claimsMultipliersSchema,
+  postcode_risk_multipliers: z.record(z.string(), positive),
+  storage_multipliers: z.object({
+    garage: positive,
+    carport: positive,
+    driveway: positive,
+    street: positive,
+  }),
+  excess_options: excessOptionsSchema,
+  member_discount_pct: z.number().min(0).max(100),
+  range_spread_pct: z.number().min(0).max(100),
+  coverage_highlights: z.array(z.string()),
+});
+
+/** Kinds of caravan and trailer the caravan product rates. */
+export const CARAVAN_TYPES = ["caravan", "pop_top", "camper_trailer", "box_trailer", "horse_float"] as const;
+export type CaravanType = (typeof CARAVAN_TYPES)[number];
+
+export const caravansFileSchema = z.record(
+  z.string(),
+  z.record(z.string(), z.object({ type: z.enum(CARAVAN_TYPES), base_value: positive }))
+);
+
+const caravanTypeRuleSchema = z.object({
+  label: z.string().min(1),
+  /** Annual premium as a percentage of the agreed value, before multipliers. */
+  rate_pct: positive,
+  min_premium: positive,
+});
+
+export const caravanRulesFileSchema = z.object({
+  ...versionFields,
+  types: z.object({
+    caravan: caravanTypeRuleSchema,
+    pop_top: caravanTypeRuleSchema,
+    camper_trailer: caravanTypeRuleSchema,
+    box_trailer: caravanTypeRuleSchema,
+    horse_float: caravanTypeRuleSchema,
+  }),
+  agreed_value: z.object({ min: positive, max: positive }),
+  depreciation_pct: z.number().min(0).max(100),
+  usage_multipliers: z.object({ touring: positive, on_site: positive }),
+  storage_multipliers: z.object({
+    garage: positive,
+    carport: positive,
+    driveway: positive,
+    storage_facility: positive,
+    street: positive,
+  }),
+  claims_multipliers: claimsMultipliersSchema,
+  postcode_risk_multipliers: z.record(z.string(), positive),
+  excess_options: excessOptionsSchema,
+  member_discount_pct: z.number().min(0).max(100),
+  range_spread_pct: z.number().min(0).max(100),
+  coverage_highlights: z.array(z.string()),
+});
+
+/** How a PDS is divided up for get_coverage_details. */
+export const COVERAGE_AREAS = ["standard_inclusions", "optional_extras", "exclusions", "excess_options", "claims_process"] as const;
+export type CoverageArea = (typeof COVERAGE_AREAS)[number];
+
+const pdsClauseSchema = z.object({
+  /** PDS section number, e.g. "2.6". */
+  section: z.string().regex(/^\d+(\.\d+)*$/, "must be a section number such as 2.6"),
+  area: z.enum(COVERAGE_AREAS),
+  heading: z.string().min(1),
+  text: z.string().min(1),
+  /** Covers the clause applies to; every cover in the file when absent. */
+  cover_types: z.array(z.enum(COVER_TYPES)).min(1).optional(),
+  /** Words people use that the wording doesn't, e.g. "prang" for accident damage. */
+  keywords: z.array(z.string().min(1)).default([]),
+});
+
+export const pdsFileSchema = z.object({
+  ...versionFields,
+  /** e.g. "RACV Car Insurance Product Disclosure Statement" */
+  document: z.string().min(1),
+  url: z.string().url(),
+  cover_types: z.array(z.enum(COVER_TYPES)).min(1),
+  areas: z.object({
+    standard_inclusions: z.string().min(1),
+    optional_extras: z.string().min(1),
+    exclusions: z.string().min(1),
+    excess_options: z.string().min(1),
+    claims_process: z.string().min(1),
+  }),
+  clauses: z.array(pdsClauseSchema).min(1),
+});
+
+export type Vehicles = z.infer<typeof vehiclesFileSchema>;
+export type Postcodes = z.infer<typeof postcodesFileSchema>;
+export type PricingRules = z.infer<typeof pricingRulesFileSchema>;
+export type Suburbs = z.infer<typeof suburbsFileSchema>;
+export type Motorcycles = z.infer<typeof motorcyclesFileSchema>;
+export type MotorcycleRules = z.infer<typeof motorcycleRulesFileSchema>;
+export type Caravans = z.infer<typeof caravansFileSchema>;
+export type CaravanRules = z.infer<typeof caravanRulesFileSchema>;
+export type PolicyWording = z.infer<typeof pdsFileSchema>;
+export type PdsClause = PolicyWording["clauses"][number];
+
+export interface RatingData {
+  vehicles: Vehicles;
+  postcodes: Postcodes;
+  pricingRules: PricingRules;
+  suburbs: Suburbs;
+  motorcycles: Motorcycles;
+  motorcycleRules: MotorcycleRules;
+  caravans: Caravans;
+  caravanRules: CaravanRules;
+  pds: Record<Product, PolicyWording>;
+  dir: string;
+  loaded_at: string;
+}
+
+export class RatingDataError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid rating data:\n  - ${issues.join("\n  - ")}`);
+    this.name = "RatingDataError";
+  }
+}
+
+const FILES = {
+  vehicles: "vehicles.json",
+  postcodes: "postcodes.json",
+  pricingRules: "pricing-rules.json",
+  suburbs: "suburbs.json",
+  motorcycles: "motorcycles.json",
+  motorcycleRules: "motorcycle-rules.json",
+  caravans: "caravans.json",
+  caravanRules: "caravan-rules.json",
+  pdsCar: "pds-car.json",
+  pdsMotorcycle: "pds-motorcycle.json",
+  pdsCaravan: "pds-caravan.json",
+} as const;
+
+const PDS_FILES: Record<Product, string> = {
+  car: FILES.pdsCar,
+  motorcycle: FILES.pdsMotorcycle,
+  caravan: FILES.pdsCaravan,
+};
+
+// Works whether run from dist/ (build copies src/data to dist/data) or src/ via tsx
+export function ratingDataDir(): string {
+  if (process.env.RATING_DATA_DIR) return process.env.RATING_DATA_DIR;
+  const fromDist = join(__dirname, "../data");
+  return existsSync(join(fromDist, FILES.pricingRules)) ? fromDist : join(__dirname, "../../src/data");
+}
+
+function parseFile<S extends z.ZodTypeAny>(dir: string, file: string, schema: S, issues: string[]): z.output<S> | undefined {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(join(dir, file), "utf-8"));
+  } catch (error) {
+    issues.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      issues.push(`${file}: ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+    }
+    return undefined;
+  }
+  return parsed.data;
+}
+
+/** Brackets must be ordered, non-overlapping and leave no gaps between `from` and `to`. */
+function checkBrackets(
+  file: string,
+  name: string,
+  brackets: { min: number; max: number }[],
+  from: number,
+  to: number,
+  issues: string[]
+): void {
+  const sorted = [...brackets].sort((a, b) => a.min - b.min);
+  let expected = from;
+  for (const { min, max } of sorted) {
+    if (min > max) {
+      issues.push(`${file}: ${name} bracket ${min}–${max} has min above max`);
+      continue;
+    }
+    if (min < expected) {
+      issues.push(`${file}: ${name} bracket ${min}–${max} overlaps the bracket before it (which ends at ${expected - 1})`);
+    } else if (min > expected) {
+      issues.push(`${file}: ${name} has a gap from ${expected} to ${min - 1}`);
+    }
+    expected = Math.max(expected, max + 1);
+  }
+  if (expected <= to) {
+    issues.push(`${file}: ${name} has a gap from ${expected} to ${to}`);
+  }
+}
+
+function checkClaimsMultipliers(file: string, multipliers: Record<string, number>, issues: string[]): void {
+  for (let claims = 0; claims <= 5; claims++) {
+    if (multipliers[String(claims)] === undefined) {
+      issues.push(`${file}: claims_multipliers is missing "${claims}"`);
+    }
+  }
+}
+
+/** Every risk zone in postcodes.json needs a multiplier, and every multiplier a zone. */
+function checkZoneMultipliers(file: string, multipliers: Record<string, number>, postcodes: Postcodes, issues: string[]): void {
+  for (const zone of Object.keys(postcodes.risk_zones)) {
+    if (multipliers[zone] === undefined) {
+      issues.push(`${FILES.postcodes}: risk zone "${zone}" has no postcode_risk_multipliers entry in ${file}`);
+    }
+  }
+  for (const zone of Object.keys(multipliers)) {
+    if (!postcodes.risk_zones[zone]) {
+      issues.push(`${file}: postcode_risk_multipliers has unknown risk zone "${zone}"`);
+    }
+  }
+}
+
+function checkBaseRates(file: string, at: string, rates: Record<string, { min: number; max: number }>, issues: string[]): void {
+  for (const [category, rate] of Object.entries(rates)) {
+    if (rate.min > rate.max) issues.push(`${file}: ${at}.${category} has min above max`);
+  }
+}
+
+function checkExcessOptions(file: string, at: string, options: { amount: number }[], issues: string[]): void {
+  const amounts = options.map((opt) => opt.amount);
+  if (new Set(amounts).size !== amounts.length) {
+    issues.push(`${file}: ${at} has duplicate amounts`);
+  }
+}
+
+/** Sections are unique, and every cover the PDS lists has wording for every area. */
+function checkPolicyWording(file: string, pds: PolicyWording, issues: string[]): void {
+  const sections = new Set<string>();
+  for (const clause of pds.clauses) {
+    if (sections.has(clause.section)) issues.push(`${file}: section ${clause.section} appears twice`);
+    sections.add(clause.section);
+    for (const coverType of clause.cover_types ?? []) {
+      if (!pds.cover_types.includes(coverType)) {
+        issues.push(`${file}: section ${clause.section} is for ${coverType}, which is not in cover_types`);
+      }
+    }
+  }
+  for (const coverType of pds.cover_types) {
+    for (const area of COVERAGE_AREAS) {
+      const found = pds.clauses.some(
+        (clause) => clause.area === area && (!clause.cover_types || clause.cover_types.includes(coverType))
+      );
+      if (!found) issues.push(`${file}: no ${area} clauses for ${coverType}`);
+    }
+  }
+}
+
+function checkPostcodeCoverage(postcodes: Postcodes, issues: string[]): void {
+  const file = FILES.postcodes;
+  const first = parseInt(postcodes.valid_prefix, 10) * 1000;
+  const last = first + 999;
+  const rangeOwner = new Map<number, string>();
+  const explicitOwner = new Map<string, string>();
+
+  for (const [zone, config] of Object.entries(postcodes.risk_zones)) {
+    for (const [min, max] of config.ranges) {
+      if (min > max) issues.push(`${file}: ${zone} range ${min}–${max} has min above max`);
+      if (min < first || max > last) {
+        issues.push(`${file}: ${zone} range ${min}–${max} is outside ${first}–${last}`);
+      }
+      for (let pc = Math.max(min, first); pc <= Math.min(max, last); pc++) {
+        const owner = rangeOwner.get(pc);
+        if (owner) {
+          issues.push(`${file}: postcode ${pc} is in ranges for both ${owner} and ${zone}`);
+          break;
+        }
+        rangeOwner.set(pc, zone);
+      }
+    }
+    for (const pc of config.postcodes) {
+      const owner = explicitOwner.get(pc);
+      if (owner) issues.push(`${file}: postcode ${pc} is listed under both ${owner} and ${zone}`);
+      explicitOwner.set(pc, zone);
+    }
+  }
+
+  const gaps: number[] = [];
+  for (let pc = first; pc <= last; pc++) {
+    if (!rangeOwner.has(pc) && !explicitOwner.has(String(pc))) gaps.push(pc);
+  }
+  if (gaps.length > 0) {
+    const shown = gaps.slice(0, 10).join(", ") + (gaps.length > 10 ? ` and ${gaps.length - 10} more` : "");
+    issues.push(`${file}: postcodes not in any risk zone: ${shown}`);
+  }
+}
+
+/** Checks that span files or need more than a schema can express. */
+export function checkRatingData(data: Omit<RatingData, "dir" | "loaded_at">): string[] {
+  const issues: string[] = [];
+  const { vehicles, postcodes, pricingRules, suburbs, motorcycles, motorcycleRules, caravans, caravanRules, pds } = data;
+  const rulesFile = FILES.pricingRules;
+
+  checkBrackets(
+    rulesFile,
+    "age_multipliers",
+    pricingRules.age_multipliers.map((b) => ({ min: b.min_age, max: b.max_age })),
+    17,
+    99,
+    issues
+  );
+  checkBrackets(
+    rulesFile,
+    "vehicle_age_adjustments",
+    pricingRules.vehicle_age_adjustments.map((b) => ({ min: b.min_years, max: b.max_years })),
+    0,
+    99,
+    issues
+  );
+
+  checkClaimsMultipliers(rulesFile, pricingRules.claims_multipliers, issues);
+
+  const categories = new Set(Object.values(vehicles).flatMap((models) => Object.values(models).map((info) => info.category)));
+  for (const coverType of COVER_TYPES) {
+    const cover = pricingRules.cover_types[coverType];
+    const at = `cover_types.${coverType}`;
+    checkBaseRates(rulesFile, `${at}.base_rates`, cover.base_rates, issues);
+    if (!cover.base_rates.midrange) {
+      issues.push(`${rulesFile}: ${at}.base_rates needs a "midrange" rate for vehicles not in vehicles.json`);
+    }
+    for (const category of categories) {
+      if (!cover.base_rates[category]) {
+        issues.push(`${rulesFile}: ${at}.base_rates has no rate for vehicle category "${category}"`);
+      }
+    }
+    checkExcessOptions(rulesFile, `${at}.excess_options`, cover.excess_options, issues);
+  }
+
+  checkZoneMultipliers(rulesFile, pricingRules.postcode_risk_multipliers, postcodes, issues);
+  checkPostcodeCoverage(postcodes, issues);
+
+  // Motorcycles: riders must be 18 for a motorcycle licence in Victoria
+  const bikeFile = FILES.motorcycleRules;
+  checkBrackets(
+    bikeFile,
+    "age_multipliers",
+    motorcycleRules.age_multipliers.map((b) => ({ min: b.min_age, max: b.max_age })),
+    18,
+    99,
+    issues
+  );
+  checkBrackets(
+    bikeFile,
+    "experience_multipliers",
+    motorcycleRules.experience_multipliers.map((b) => ({ min: b.min_years, max: b.max_years })),
+    0,
+    99,
+    issues
+  );
+  checkClaimsMultipliers(bikeFile, motorcycleRules.claims_multipliers, issues);
+  checkZoneMultipliers(bikeFile, motorcycleRules.postcode_risk_multipliers, postcodes, issues);
+  checkBaseRates(bikeFile, "base_rates", motorcycleRules.base_rates, issues);
+  if (!motorcycleRules.base_rates.road) {
+    issues.push(`${bikeFile}: base_rates needs a "road" rate for motorcycles not in ${FILES.motorcycles}`);
+  }
+  checkExcessOptions(bikeFile, "excess_options", motorcycleRules.excess_options, issues);
+  for (const [make, models] of Object.entries(motorcycles)) {
+    for (const [model, info] of Object.entries(models)) {
+      if (!motorcycleRules.base_rates[info.category]) {
+        issues.push(`${FILES.motorcycles}: ${make} ${model} has unknown category "${info.category}" (not in base_rates)`);
+      }
+    }
+  }
+
+  // Caravans and trailers; catalogue types are checked by the schema
+  const caravanFile = FILES.caravanRules;
+  checkClaimsMultipliers(caravanFile, caravanRules.claims_multipliers, issues);
+  checkZoneMultipliers(caravanFile, caravanRules.postcode_risk_multipliers, postcodes, issues);
+  checkExcessOptions(caravanFile, "excess_options", caravanRules.excess_options, issues);
+  if (caravanRules.agreed_value.min > caravanRules.agreed_value.max) {
+    issues.push(`${caravanFile}: agreed_value has min above max`);
+  }
+  for (const [make, models] of Object.entries(caravans)) {
+    for (const [model, info] of Object.entries(models)) {
+      if (info.base_value > caravanRules.agreed_value.max) {
+        issues.push(`${FILES.caravans}: ${make} ${model} is worth more than the $${caravanRules.agreed_value.max.toLocaleString()} agreed value limit`);
+      }
+    }
+  }
+
+  for (const [product, file] of Object.entries(PDS_FILES) as [Product, string][]) {
+    checkPolicyWording(file, pds[product], issues);
+  }
+  if (pds.car.cover_types.length !== COVER_TYPES.length) {
+    issues.push(`${FILES.pdsCar}: cover_types must list every car cover type`);
+  }
+
+  const seen = new Set<string>();
+  for (const { suburb, postcode } of suburbs.suburbs) {
+    const key = `${suburb.toLowerCase()} ${postcode}`;
+    if (seen.has(key)) issues.push(`${FILES.suburbs}: ${suburb} ${postcode} is listed twice`);
+    seen.add(key);
+    if (!postcode.startsWith(postcodes.valid_prefix)) {
+      issues.push(`${FILES.suburbs}: ${suburb} has non-Victorian postcode ${postcode}`);
+    }
+  }
+  return issues;
+}
+
+/** Read and validate all the files. Throws RatingDataError listing every problem found. */
+export function loadRatingData(dir: string = ratingDataDir()): RatingData {
+  const issues: string[] = [];
+  const vehicles = parseFile(dir, FILES.vehicles, vehiclesFileSchema, issues);
+  const postcodes = parseFile(dir, FILES.postcodes, postcodesFileSchema, issues);
+  const pricingRules = parseFile(dir, FILES.pricingRules, pricingRulesFileSchema, issues);
+  const suburbs = parseFile(dir, FILES.suburbs, suburbsFileSchema, issues);
+  const motorcycles = parseFile(dir, FILES.motorcycles, motorcyclesFileSchema, issues);
+  const motorcycleRules = parseFile(dir, FILES.motorcycleRules, motorcycleRulesFileSchema, issues);
+  const caravans = parseFile(dir, FILES.caravans, caravansFileSchema, issues);
+  const caravanRules = parseFile(dir, FILES.caravanRules, caravanRulesFileSchema, issues);
+  const pdsCar = parseFile(dir, FILES.pdsCar, pdsFileSchema, issues);
+  const pdsMotorcycle = parseFile(dir, FILES.pdsMotorcycle, pdsFileSchema, issues);
+  const pdsCaravan = parseFile(dir, FILES.pdsCaravan, pdsFileSchema, issues);
+
+  const pds = pdsCar && pdsMotorcycle && pdsCaravan ? { car: pdsCar, motorcycle: pdsMotorcycle, caravan: pdsCaravan } : undefined;
+  if (vehicles && postcodes && pricingRules && suburbs && motorcycles && motorcycleRules && caravans && caravanRules && pds) {
+    issues.push(
+      ...checkRatingData({ vehicles, postcodes, pricingRules, suburbs, motorcycles, motorcycleRules, caravans, caravanRules, pds })
+    );
+  }
+  if (issues.length > 0) throw new RatingDataError(issues);
+
+  return {
+    vehicles: vehicles!,
+    postcodes: postcodes!,
+    pricingRules: pricingRules!,
+    suburbs: suburbs!,
+    motorcycles: motorcycles!,
+    motorcycleRules: motorcycleRules!,
+    caravans: caravans!,
+    caravanRules: caravanRules!,
+    pds: pds!,
+    dir,
+    loaded_at: new Date().toISOString(),
+  };
+}
+
+let current: RatingData | null = null;
+const events = new EventEmitter();
+// Listeners are per module (e.g. the resource notifier), not per session, so a
+// few is plenty; Node warns past this, which means something is leaking them
+events.setMaxListeners(5);
+
+/** The rating data in use. Loaded (and validated) on first call. */
+export function getRatingData(): RatingData {
+  if (!current) current = loadRatingData();
+  return current;
+}
+
+/** Re-read the files; on failure the previous data stays in use and the error is thrown. */
+export function reloadRatingData(): RatingData {
+  const next = loadRatingData(current?.dir);
+  const previous = current;
+  current = next;
+  events.emit("reload", next, previous);
+  return next;
+}
+
+/** Called after every successful reload, e.g. to notify MCP clients that resources changed. */
+export function onRatingDataReload(listener: (data: RatingData, previous: RatingData | null) => void): () => void {
+  events.on("reload", listener);
+  return () => events.off("reload", listener);
+}
+
+/**
+ * Reload the rating data whenever one of its files changes. Editors often write
+ * a file in several steps, so changes are debounced. Returns a function that
+ * stops watching.
+ */
+export function watchRatingData(debounceMs = 250): () => void {
+  const dir = getRatingData().dir;
+  const watched = new Set<string>(Object.values(FILES));
+  let timer: NodeJS.Timeout | null = null;
+
+  const watcher: FSWatcher = watch(dir, (_event, filename) => {
+    if (filename && !watched.has(filename.toString())) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      try {
+        const data = reloadRatingData();
+        console.error(`[RatingData] Reloaded rating data (pricing rules ${data.pricingRules.version})`);
+      } catch (error) {
+        console.error(
+          `[RatingData] Reload failed, still using pricing rules ${current?.pricingRules.version}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }, debounceMs);
+  });
+  // Don't keep the process alive just to watch files
+  watcher.unref();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
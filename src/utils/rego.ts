@@ -0,0 +1,46 @@
+/**
+ * Victorian registration plate checks. The rego is typed into the RACV form
+ * verbatim, so it is normalised and checked against the plate formats VicRoads
+ * issues before a browser is launched; a typo otherwise only shows up as a failed
+ * lookup a minute into the scrape.
+ */
+
+export type PlateType = "standard" | "custom" | "personalised" | "heritage" | "trailer";
+
+export type RegoCheck =
+  | { ok: true; rego: string; plate_type: PlateType; description: string }
+  | { ok: false; rego: string; error: string };
+
+const MAX_PLATE_LENGTH = 6;
+
+// Checked in order; the first match wins, so the general-issue sequences come before
+// the looser custom and personalised shapes they also fit
+const PLATE_FORMATS: { type: PlateType; pattern: RegExp; description: string }[] = [
+  { type: "standard", pattern: /^\d[A-Z]{2}\d[A-Z]{2}$/, description: "standard plate (1AB 2CD series)" },
+  { type: "standard", pattern: /^[A-Z]{3}\d{3}$/, description: "standard plate (ABC 123 series)" },
+  { type: "heritage", pattern: /^\d{1,5}H$/, description: "heritage (club permit) plate" },
+  { type: "trailer", pattern: /^[A-Z]\d{5}$/, description: "trailer plate" },
+  { type: "custom", pattern: /^(?:[A-Z]{1,3}\d{1,3}|\d{1,3}[A-Z]{1,3})$/, description: "custom plate" },
+  { type: "personalised", pattern: /^[A-Z0-9]{1,6}$/, description: "personalised plate" },
+];
+
+/** Uppercase and drop the spaces, dashes and dots people type between plate characters. */
+export function normaliseRego(rego: string): string {
+  return rego.toUpperCase().replace(/[\s.\-]/g, "");
+}
+
+export function checkRego(input: string): RegoCheck {
+  const rego = normaliseRego(input);
+  if (!rego) {
+    return { ok: false, rego, error: "The registration number is empty" };
+  }
+  if (/[^A-Z0-9]/.test(rego)) {
+    return { ok: false, rego, error: `"${input}" is not a registration number: Victorian plates only have letters and digits` };
+  }
+  if (rego.length > MAX_PLATE_LENGTH) {
+    return { ok: false, rego, error: `"${input}" is too long for a Victorian plate (at most ${MAX_PLATE_LENGTH} characters)` };
+  }
+
+  const format = PLATE_FORMATS.find(({ pattern }) => pattern.test(rego))!;
+  return { ok: true, rego, plate_type: format.type, description: format.description };
+}
@@ -0,0 +1,117 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Readable, Writable } from "node:stream";
+import { finished } from "node:stream/promises";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { StoredSession } from "./session-store.js";
+
+/**
+ * Bringing an HTTP session back after a restart. The SDK has no API to mark a
+ * transport as already initialized, so a fresh one is put through the client's
+ * original initialize handshake instead. The messages are handed to the
+ * transport's handleRequest in-process, as parsedBody on a minimal request, and
+ * the replies are collected and checked rather than thrown away.
+ *
+ * Tested against the SDK version pinned in package.json by
+ * src/utils/test-session-restore.ts; re-run it before changing the pin.
+ */
+
+export class SessionRestoreError extends Error {
+  constructor(sessionId: string, reason: string) {
+    super(`Session ${sessionId} could not be restored: ${reason}`);
+    this.name = "SessionRestoreError";
+  }
+}
+
+/** JSON-RPC messages in a response body, whether sent as plain JSON or as an SSE stream. */
+function parseMessages(contentType: string | null, body: string): Array<Record<string, unknown>> {
+  if (!contentType?.includes("text/event-stream")) return body ? [JSON.parse(body)] : [];
+  return body
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trim())
+    // Priming events (resumable streams) carry no data
+    .filter(Boolean)
+    .map((data) => JSON.parse(data));
+}
+
+/** Just enough of an IncomingMessage for handleRequest: method, URL and headers, with an empty body (the message goes in as parsedBody). */
+class ReplayRequest extends Readable {
+  readonly method = "POST";
+  readonly url = "/mcp";
+  readonly rawHeaders: string[];
+
+  constructor(readonly headers: Record<string, string>) {
+    super({ read() {} });
+    this.rawHeaders = Object.entries(headers).flat();
+    this.push(null);
+  }
+}
+
+/** Just enough of a ServerResponse for handleRequest, keeping the status and body. */
+class ReplayResponse extends Writable {
+  statusCode = 0;
+  contentType: string | null = null;
+  private chunks: Buffer[] = [];
+
+  writeHead(status: number, headers: Record<string, string | string[] | number> = {}): this {
+    this.statusCode = status;
+    this.contentType = String(headers["content-type"] ?? "") || null;
+    return this;
+  }
+
+  flushHeaders(): void {}
+
+  _write(chunk: Buffer | string, _encoding: BufferEncoding, done: (error?: Error | null) => void): void {
+    this.chunks.push(Buffer.from(chunk));
+    done();
+  }
+
+  get body(): string {
+    return Buffer.concat(this.chunks).toString("utf-8");
+  }
+}
+
+/**
+ * Replay `session`'s initialize request and initialized notification into `transport`,
+ * which must be connected to an MCP server and have a sessionIdGenerator returning
+ * the session's ID. Throws SessionRestoreError if the transport doesn't accept them.
+ */
+export async function replayInitialize(transport: StreamableHTTPServerTransport, session: StoredSession): Promise<void> {
+  const post = async (message: object) => {
+    const req = new ReplayRequest({
+      host: "localhost",
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      "mcp-protocol-version": session.protocol_version,
+      ...(transport.sessionId ? { "mcp-session-id": transport.sessionId } : {}),
+    });
+    const res = new ReplayResponse();
+    // Typed for Node's HTTP classes, but the transport only uses what these two provide
+    await transport.handleRequest(req as unknown as IncomingMessage, res as unknown as ServerResponse, message);
+    if (!res.writableEnded) {
+      throw new SessionRestoreError(session.session_id, "the transport did not finish its reply");
+    }
+    await finished(res);
+    return { status: res.statusCode, messages: parseMessages(res.contentType, res.body) };
+  };
+
+  const initialize = await post({
+    jsonrpc: "2.0",
+    id: 0,
+    method: "initialize",
+    params: { protocolVersion: session.protocol_version, capabilities: session.capabilities, clientInfo: session.client_info },
+  });
+  const reply = initialize.messages.find((message) => message.id === 0);
+  if (initialize.status !== 200 || !reply || !("result" in reply)) {
+    const error = (reply?.error ?? initialize.messages[0]?.error) as { message?: string } | undefined;
+    throw new SessionRestoreError(session.session_id, `initialize was refused (${initialize.status}${error?.message ? `: ${error.message}` : ""})`);
+  }
+  if (transport.sessionId !== session.session_id) {
+    throw new SessionRestoreError(session.session_id, `the transport gave it the ID ${transport.sessionId}`);
+  }
+
+  const initialized = await post({ jsonrpc: "2.0", method: "notifications/initialized" });
+  if (initialized.status !== 202) {
+    throw new SessionRestoreError(session.session_id, `notifications/initialized was refused (${initialized.status})`);
+  }
+}
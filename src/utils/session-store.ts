@@ -0,0 +1,122 @@
+import { resolve } from "path";
+import type { ClientCapabilities, Implementation } from "@modelcontextprotocol/sdk/types.js";
+import { envInt } from "./env.js";
+import { readJsonRecords, writeJsonRecords } from "./json-file.js";
+
+/**
+ * What's needed to bring an HTTP session back after a restart: its ID and how the
+ * client initialized it. The server replays the initialize handshake from this, so
+ * the client carries on with the same Mcp-Session-Id and its capabilities (e.g.
+ * elicitation) are known again.
+ */
+export interface StoredSession {
+  session_id: string;
+  protocol_version: string;
+  capabilities: ClientCapabilities;
+  client_info: Implementation;
+  created_at: string;
+  last_seen_at: string;
+}
+
+/**
+ * Backing store for HTTP session metadata.
+ * Implementations must be safe to call from concurrent requests.
+ */
+export interface SessionStore {
+  save(session: StoredSession): Promise<void>;
+  get(sessionId: string): Promise<StoredSession | undefined>;
+  delete(sessionId: string): Promise<boolean>;
+  purgeExpired(now?: Date): Promise<number>;
+}
+
+// Sessions idle for longer than this are not restored
+export const SESSION_TTL_MS = envInt("SESSION_TTL_HOURS", 24) * 60 * 60 * 1000;
+
+export function isSessionExpired(session: StoredSession, now: Date = new Date()): boolean {
+  return new Date(session.last_seen_at).getTime() + SESSION_TTL_MS < now.getTime();
+}
+
+export class MemorySessionStore implements SessionStore {
+  protected sessions = new Map<string, StoredSession>();
+
+  async save(session: StoredSession): Promise<void> {
+    this.sessions.set(session.session_id, session);
+  }
+
+  async get(sessionId: string): Promise<StoredSession | undefined> {
+    const session = this.sessions.get(sessionId);
+    return session && !isSessionExpired(session) ? session : undefined;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.sessions.delete(sessionId);
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    let purged = 0;
+    for (const [id, session] of this.sessions) {
+      if (isSessionExpired(session, now)) {
+        this.sessions.delete(id);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+/** Keeps sessions in memory and mirrors them to a JSON file so they survive a restart. */
+export class FileSessionStore extends MemorySessionStore {
+  constructor(private readonly filePath: string) {
+    super();
+    for (const session of readJsonRecords<StoredSession>(filePath)) {
+      this.sessions.set(session.session_id, session);
+    }
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    await super.save(session);
+    this.flush();
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const deleted = await super.delete(sessionId);
+    if (deleted) this.flush();
+    return deleted;
+  }
+
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const purged = await super.purgeExpired(now);
+    if (purged > 0) this.flush();
+    return purged;
+  }
+
+  private flush(): void {
+    writeJsonRecords(this.filePath, this.sessions.values());
+  }
+}
+
+function createSessionStore(): SessionStore {
+  const kind = (process.env.SESSION_STORE || "memory").toLowerCase();
+  if (kind === "file") {
+    const filePath = resolve(process.env.SESSION_STORE_PATH || ".data/sessions.json");
+    console.error(`[SessionStore] Persisting sessions to ${filePath}`);
+    return new FileSessionStore(filePath);
+  }
+  if (kind !== "memory") {
+    console.error(`[SessionStore] Unknown SESSION_STORE "${kind}", using in-memory store`);
+  }
+  return new MemorySessionStore();
+}
+
+let store: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (!store) {
+    store = createSessionStore();
+  }
+  return store;
+}
+
+export function setSessionStore(custom: SessionStore): void {
+  store = custom;
+}
@@ -0,0 +1,75 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { FileEventStore, MemoryEventStore, SessionEventStore } from "./event-store.js";
+
+// Checks that resumable SSE events stay within their session: two sessions writing to
+// the same stream ID ("_GET_stream", as every standalone GET stream is named) must
+// only ever replay their own events, including after a file store is reloaded.
+// Usage: npx tsx src/utils/test-event-store.ts
+
+const STREAM = "_GET_stream";
+
+function log(data: string): JSONRPCMessage {
+  return { jsonrpc: "2.0", method: "notifications/message", params: { level: "info", data } };
+}
+
+async function replay(store: SessionEventStore, sessionId: string, lastEventId: string): Promise<string[]> {
+  const sent: string[] = [];
+  await store.forSession(sessionId).replayEventsAfter(lastEventId, {
+    send: async (_eventId, message) => {
+      sent.push("params" in message ? String(message.params?.data) : "");
+    },
+  });
+  return sent;
+}
+
+let failed = 0;
+function check(name: string, ok: boolean, detail = "") {
+  console.log(`${ok ? "PASS" : "FAIL"}  ${name}${ok ? "" : `  ${detail}`}`);
+  if (!ok) failed++;
+}
+
+async function checkIsolation(label: string, store: SessionEventStore, reopen?: () => SessionEventStore) {
+  const a = store.forSession("session-a");
+  const b = store.forSession("session-b");
+  const first = await a.storeEvent(STREAM, log("a1"));
+  await b.storeEvent(STREAM, log("b1: Looking up registration ABC123"));
+  await a.storeEvent(STREAM, log("a2"));
+  await b.storeEvent(STREAM, log("b2"));
+  const reloaded = reopen?.() ?? store;
+
+  const own = await replay(reloaded, "session-a", first);
+  check(`${label}: replay returns only the session's own events`, JSON.stringify(own) === JSON.stringify(["a2"]), JSON.stringify(own));
+
+  const foreignStream = await reloaded.forSession("session-b").getStreamIdForEventId!(first);
+  check(`${label}: another session's event ID is unknown`, foreignStream === undefined, String(foreignStream));
+
+  const refused = await replay(reloaded, "session-b", first).then(
+    () => false,
+    () => true
+  );
+  check(`${label}: replaying from another session's event ID is refused`, refused);
+
+  await reloaded.deleteSession("session-a");
+  const gone = await reloaded.forSession("session-a").getStreamIdForEventId!(first);
+  check(`${label}: a deleted session's events are gone`, gone === undefined);
+}
+
+await checkIsolation("memory", new MemoryEventStore());
+
+const dir = mkdtempSync(join(tmpdir(), "event-store-"));
+try {
+  const filePath = join(dir, "events.json");
+  const fileStore = new FileEventStore(filePath);
+  await checkIsolation("file", fileStore, () => {
+    fileStore.flush();
+    return new FileEventStore(filePath);
+  });
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+console.log(failed === 0 ? "\nAll checks passed" : `\n${failed} check(s) failed`);
+process.exit(failed > 0 ? 1 : 0);
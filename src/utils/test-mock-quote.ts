@@ -0,0 +1,82 @@
+import { scrapeRacvQuote, closeBrowser, RacvQuoteInput, RacvQuoteResult } from "./racv-scraper.js";
+import { startRacvMockSite, mockPremium, mockCoverPremium } from "../mock/racv-mock-site.js";
+
+// Drives the full scrape flow against the local RACV mock site — no network needed.
+// Usage: npx tsx src/utils/test-mock-quote.ts [REGO...]
+
+const scenarios: { rego: string; input?: Partial<RacvQuoteInput>; expect: (r: RacvQuoteResult) => boolean }[] = [
+  {
+    rego: "ABC123",
+    expect: (r) => r.success && r.annual_premium === mockPremium(35, 0, false).annual,
+  },
+  {
+    rego: "HUON50",
+    expect: (r) => r.success && /COROLLA/.test(r.vehicle_description || ""),
+  },
+  {
+    rego: "SYSERR",
+    expect: (r) => r.success && r.monthly_premium === mockPremium(35, 0, false).monthly,
+  },
+  {
+    // Rated on the 19-year-old, with their age excess on the result page
+    rego: "XYZ789",
+    input: {
+      additional_drivers: [{ driver_age: 19, driver_gender: "female", licence_age: 17, claims_last_5_years: 0 }],
+    },
+    expect: (r) =>
+      r.success &&
+      r.annual_premium === mockPremium(19, 0, false).annual &&
+      r.driver_excesses?.[0]?.amount === 1300,
+  },
+  {
+    // Switched to Third Party, Fire & Theft on the result page
+    rego: "TPF123",
+    input: { cover_type: "third_party_fire_theft" },
+    expect: (r) =>
+      r.success &&
+      r.cover_type === "third_party_fire_theft" &&
+      r.annual_premium === mockCoverPremium(mockPremium(35, 0, false), "third_party_fire_theft").annual,
+  },
+  {
+    // Motorcycle form (p=MOTORCYCLE) looks up a bike for the same rego
+    rego: "MC1234",
+    input: { product: "motorcycle" },
+    expect: (r) => r.success && r.product === "motorcycle" && /YAMAHA/.test(r.vehicle_description || ""),
+  },
+  {
+    rego: "NOTFND",
+    expect: (r) => !r.success && r.step_reached === "rego_lookup",
+  },
+];
+
+const only = process.argv.slice(2).map((r) => r.toUpperCase());
+const selected = only.length > 0 ? scenarios.filter((s) => only.includes(s.rego)) : scenarios;
+
+const { server, baseUrl } = await startRacvMockSite();
+console.log(`Mock RACV site: ${baseUrl}\n`);
+
+let failed = 0;
+for (const scenario of selected) {
+  console.log(`=== ${scenario.rego} ===`);
+  const result = await scrapeRacvQuote(
+    {
+      rego: scenario.rego,
+      address: "80 Bourke Street Melbourne",
+      driver_age: 35,
+      driver_gender: "male",
+      licence_age: 18,
+      claims_last_5_years: 0,
+      is_racv_member: false,
+      ...scenario.input,
+    },
+    { baseUrl }
+  );
+  const pass = scenario.expect(result);
+  if (!pass) failed++;
+  console.log(JSON.stringify(result, null, 2));
+  console.log(pass ? "PASS\n" : "FAIL\n");
+}
+
+await closeBrowser();
+server.close();
+process.exit(failed > 0 ? 1 : 0);
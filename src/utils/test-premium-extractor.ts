@@ -0,0 +1,67 @@
+import { readdirSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { ExtractedAmount, extractPremiums } from "./premium-extractor.js";
+import type { CoverType } from "./rating-data.js";
+
+// Runs the premium extractor over the captured result pages in fixtures/result-pages.
+// Each <name>.html has a <name>.expected.json with the annual, monthly and excess it should yield
+// (and optionally the driver_excesses, in page order), each as its amount, kind, label and
+// confidence, so a figure found only by guessing fails even when the amount is right. Multi-tier
+// pages can also list by_cover_type: what each other cover type's tier should yield when that
+// cover is requested.
+// Usage: npx tsx src/utils/test-premium-extractor.ts [name...]
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixturesDir = join(__dirname, "../../fixtures/result-pages");
+
+type Figure = Pick<ExtractedAmount, "amount" | "kind" | "label" | "confidence">;
+type Figures = Record<"annual" | "monthly" | "excess", Figure | null>;
+type Expected = Figures & { driver_excesses?: Figure[]; by_cover_type?: Partial<Record<CoverType, Figures>> };
+
+function figure(found: ExtractedAmount | undefined): Figure | null {
+  return found ? { amount: found.amount, kind: found.kind, label: found.label, confidence: found.confidence } : null;
+}
+
+const only = process.argv.slice(2);
+const names = readdirSync(fixturesDir)
+  .filter((f) => f.endsWith(".html"))
+  .map((f) => f.replace(/\.html$/, ""))
+  .filter((name) => only.length === 0 || only.includes(name));
+
+let failed = 0;
+for (const name of names) {
+  const html = readFileSync(join(fixturesDir, `${name}.html`), "utf-8");
+  const expected: Expected = JSON.parse(readFileSync(join(fixturesDir, `${name}.expected.json`), "utf-8"));
+  const extraction = extractPremiums(html, { html: true });
+
+  const figures = (coverType?: CoverType): Figures => {
+    const tiered = coverType ? extractPremiums(html, { html: true, coverType }) : extraction;
+    return { annual: figure(tiered.annual), monthly: figure(tiered.monthly), excess: figure(tiered.excess) };
+  };
+  const actual: Expected = {
+    ...figures(),
+    driver_excesses: extraction.driver_excesses.map((a) => figure(a)!),
+    by_cover_type: expected.by_cover_type
+      ? Object.fromEntries(Object.keys(expected.by_cover_type).map((c) => [c, figures(c as CoverType)]))
+      : undefined,
+  };
+  const mismatches = (Object.keys(expected) as (keyof Expected)[]).filter(
+    (k) => JSON.stringify(expected[k]) !== JSON.stringify(actual[k])
+  );
+
+  console.log(`=== ${name} ===`);
+  for (const a of extraction.amounts) {
+    console.log(`  ${a.raw.padEnd(10)} ${a.kind.padEnd(16)} ${a.confidence.toFixed(2)}  ${a.tier ?? ""} "${a.label}"`);
+  }
+  if (mismatches.length > 0) {
+    failed++;
+    for (const k of mismatches) console.log(`  ${k}: expected ${JSON.stringify(expected[k])}, got ${JSON.stringify(actual[k])}`);
+    console.log("FAIL\n");
+  } else {
+    console.log("PASS\n");
+  }
+}
+
+console.log(`${names.length - failed}/${names.length} fixtures passed`);
+process.exit(failed > 0 ? 1 : 0);
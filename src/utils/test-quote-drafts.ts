@@ -0,0 +1,78 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerUpdateQuoteDraft } from "../tools/update-quote-draft.js";
+import { FileQuoteDraftStore, getQuoteDraftStore } from "./quote-drafts.js";
+
+// Checks that quote draft updates made in parallel all land: models often send
+// several update_quote_draft calls at once, and each must build on the others
+// rather than overwrite them. Also checks that file-backed drafts survive a restart.
+// Usage: npx tsx src/utils/test-quote-drafts.ts
+
+let failed = 0;
+function check(name: string, ok: boolean, detail = "") {
+  console.log(`${ok ? "PASS" : "FAIL"}  ${name}${ok ? "" : `  ${detail}`}`);
+  if (!ok) failed++;
+}
+
+// The store on its own, with changes that take a while to apply
+const store = getQuoteDraftStore();
+const changes = [{ rego: "ABC123" }, { driver_age: 35 }, { vehicle_make: "Toyota" }];
+await Promise.all(
+  changes.map((change, i) =>
+    store.update("store-test", async (draft) => {
+      // Later changes finish first unless they wait their turn
+      await new Promise((resolve) => setTimeout(resolve, 30 - i * 10));
+      return { ...draft, fields: { ...draft.fields, ...change } };
+    })
+  )
+);
+const stored = (await store.get("store-test"))?.fields ?? {};
+check("store: every parallel update is kept", Object.keys(stored).length === 3, JSON.stringify(stored));
+
+const failing = store.update("store-test", () => {
+  throw new Error("bad change");
+});
+const after = store.update("store-test", (draft) => ({ ...draft, last_quote_id: "after-failure" }));
+check("store: a failed update is reported", await failing.then(() => false, () => true));
+check("store: a failed update doesn't block the next", (await after).last_quote_id === "after-failure");
+
+// The update_quote_draft tool, called in parallel as a model would
+const server = new McpServer({ name: "test", version: "0.0.0" });
+registerUpdateQuoteDraft(server);
+const client = new Client({ name: "test-client", version: "0.0.0" });
+const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+await Promise.all([
+  client.callTool({ name: "update_quote_draft", arguments: { licence_age: 18 } }),
+  client.callTool({ name: "update_quote_draft", arguments: { claims_last_5_years: 0 } }),
+  client.callTool({ name: "update_quote_draft", arguments: { vehicle_year: 2019 } }),
+]);
+// Outside an HTTP session the tools use the stdio draft
+const fields = (await store.get("stdio"))?.fields ?? {};
+check(
+  "update_quote_draft: parallel calls keep every field",
+  fields.licence_age === 18 && fields.claims_last_5_years === 0 && fields.vehicle_year === 2019,
+  JSON.stringify(fields)
+);
+
+await client.close();
+
+// A file store reloaded, as after a restart, still has the draft until it expires
+const dir = mkdtempSync(join(tmpdir(), "quote-drafts-"));
+try {
+  const filePath = join(dir, "quote-drafts.json");
+  await new FileQuoteDraftStore(filePath).update("file-test", (draft) => ({ ...draft, fields: { rego: "ABC123" } }));
+  const reloaded = new FileQuoteDraftStore(filePath);
+  check("file: the draft survives a reload", (await reloaded.get("file-test"))?.fields.rego === "ABC123");
+  await reloaded.purgeExpired(new Date(Date.now() + 365 * 24 * 60 * 60 * 1000));
+  check("file: an expired draft is purged", (await new FileQuoteDraftStore(filePath).get("file-test")) === undefined);
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+console.log(failed === 0 ? "\nAll checks passed" : `\n${failed} check(s) failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,88 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { MemoryEventStore } from "./event-store.js";
+import { replayInitialize } from "./session-restore.js";
+import type { StoredSession } from "./session-store.js";
+
+// Restores a session the way server.ts does after a restart and checks that the
+// installed SDK treats it as the client's own: same session ID, same client
+// capabilities, and the client's next request is served. Run it after upgrading
+// @modelcontextprotocol/sdk, since the replay depends on how transports initialize.
+// Usage: npx tsx src/utils/test-session-restore.ts
+
+const SESSION: StoredSession = {
+  session_id: "3f1c9b2e-restore-test",
+  protocol_version: "2025-11-25",
+  capabilities: { elicitation: {} },
+  client_info: { name: "restore-test", version: "1.0.0" },
+  created_at: new Date().toISOString(),
+  last_seen_at: new Date().toISOString(),
+};
+
+let failed = 0;
+function check(name: string, ok: boolean, detail = "") {
+  console.log(`${ok ? "PASS" : "FAIL"}  ${name}${ok ? "" : `  ${detail}`}`);
+  if (!ok) failed++;
+}
+
+async function openTransport(session: StoredSession) {
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => session.session_id,
+    eventStore: new MemoryEventStore().forSession(session.session_id),
+  });
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  await server.connect(transport);
+  return { transport, server };
+}
+
+const { transport, server } = await openTransport(SESSION);
+const restored = await replayInitialize(transport, SESSION).then(
+  () => "",
+  (error) => String(error)
+);
+check("the handshake is accepted", restored === "", restored);
+check("the session keeps its ID", transport.sessionId === SESSION.session_id, String(transport.sessionId));
+check(
+  "the client's capabilities are known again",
+  server.server.getClientCapabilities()?.elicitation !== undefined,
+  JSON.stringify(server.server.getClientCapabilities())
+);
+check(
+  "the client's name is known again",
+  server.server.getClientVersion()?.name === SESSION.client_info.name,
+  JSON.stringify(server.server.getClientVersion())
+);
+
+// The client's next request, with the session ID it already had
+const http = createServer((req, res) => void transport.handleRequest(req, res));
+await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+try {
+  const response = await fetch(`http://127.0.0.1:${(http.address() as AddressInfo).port}/mcp`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      accept: "application/json, text/event-stream",
+      "mcp-protocol-version": SESSION.protocol_version,
+      "mcp-session-id": SESSION.session_id,
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+  });
+  const body = await response.text();
+  check("the client's next request is served", response.status === 200 && body.includes('"result"'), `${response.status} ${body}`);
+} finally {
+  http.close();
+  http.closeAllConnections();
+}
+
+// A replay the transport refuses must fail loudly rather than leave a half-open session
+const again = await replayInitialize(transport, SESSION).then(
+  () => "",
+  (error) => String(error)
+);
+check("a refused handshake is reported", again.includes("could not be restored"), again || "no error");
+
+await transport.close();
+console.log(failed === 0 ? "\nAll checks passed" : `\n${failed} check(s) failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,42 @@
+import { searchVehicles } from "./vehicle-search.js";
+
+// Runs searchVehicles over queries customers actually type and checks the top match.
+// Usage: npx tsx src/utils/test-vehicle-search.ts
+
+interface Case {
+  query: string;
+  make: string;
+  model: string;
+  /** The top match must score at least this. */
+  minScore: number;
+  year?: number;
+}
+
+const CASES: Case[] = [
+  // Model names that contain the make
+  { query: "mazda3", make: "Mazda", model: "Mazda3", minScore: 1 },
+  { query: "mazda 3", make: "Mazda", model: "Mazda3", minScore: 1 },
+  { query: "Mazda Mazda3", make: "Mazda", model: "Mazda3", minScore: 1 },
+  // Model only, with trim and body words the catalogue doesn't have
+  { query: "hilux sr5", make: "Toyota", model: "HiLux", minScore: 0.9 },
+  { query: "2019 corolla hatch", make: "Toyota", model: "Corolla", minScore: 0.9, year: 2019 },
+  // Split and joined model names
+  { query: "cx 5", make: "Mazda", model: "CX-5", minScore: 0.9 },
+  { query: "santa fe", make: "Hyundai", model: "Santa Fe", minScore: 0.9 },
+];
+
+let failed = 0;
+for (const { query, make, model, minScore, year } of CASES) {
+  const result = searchVehicles(query);
+  const top = result.matches[0];
+  const ok = top?.make === make && top.model === model && top.score >= minScore && result.year === year;
+  const found = top ? `${top.make} ${top.model} (${top.score})` : "no match";
+  console.log(`${ok ? "PASS" : "FAIL"}  "${query}" → ${found}${result.year ? `, ${result.year}` : ""}`);
+  if (!ok) {
+    console.log(`      expected ${make} ${model} scoring ${minScore}+${year ? `, ${year}` : ""}`);
+    failed++;
+  }
+}
+
+console.log(`\n${CASES.length - failed}/${CASES.length} queries passed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -145,8 +145,8 @@ async function testGetMotorQuote() {
   let id = 10;
   for (const tc of testCases) {
     try {
-      const data = await mcpRequest("tools/call", { name: "get_motor_quote", arguments: tc.args }, id++);
-      const sc = data.result?.structuredContent?.data;
+      const data = await mcpRequest("tools/call", { name: "estimate_motor_quote", arguments: tc.args }, id++);
+      const sc = data.result?.structuredContent;
       const text = data.result?.content?.[0]?.text;
 
       if (!sc) {
@@ -188,7 +188,7 @@ async function testGetCoverageDetails() {
     try {
       const data = await mcpRequest("tools/call", { name: "get_coverage_details", arguments: { coverage_area: area } }, id++);
       const text = data.result?.content?.[0]?.text;
-      const sc = data.result?.structuredContent?.data;
+      const sc = data.result?.structuredContent;
 
       if (text && text.length > 100 && sc?.details?.length > 0) {
         log(`Coverage: ${area}`, "PASS", `${sc.details.length} items`);
@@ -203,16 +203,25 @@ async function testGetCoverageDetails() {
 
 async function testStartFullQuote() {
   try {
-    const data = await mcpRequest("tools/call", { name: "start_full_quote", arguments: { quote_id: "RACV-TEST1234" } }, 40);
+    const estimate = await mcpRequest("tools/call", {
+      name: "estimate_motor_quote",
+      arguments: { vehicle_make: "Toyota", vehicle_model: "Corolla", vehicle_year: 2022, postcode: "3000", driver_age: 30, claims_last_5_years: 0, parking_type: "garage" },
+    }, 39);
+    const quoteId = estimate.result?.structuredContent?.quote_id;
+
+    const data = await mcpRequest("tools/call", { name: "start_full_quote", arguments: { quote_id: quoteId } }, 40);
     const text = data.result?.content?.[0]?.text;
-    const sc = data.result?.structuredContent?.data;
+    const sc = data.result?.structuredContent;
+
+    const unknown = await mcpRequest("tools/call", { name: "start_full_quote", arguments: { quote_id: "RACV-TEST1234" } }, 41);
 
     const checks = [
       text?.includes("racv.com.au"),
-      text?.includes("RACV-TEST1234"),
+      text?.includes(quoteId),
       sc?.redirect_url?.includes("utm_source=ai_platform"),
-      sc?.redirect_url?.includes("ref=RACV-TEST1234"),
-      sc?.session_validity,
+      sc?.redirect_url?.includes(`ref=${quoteId}`),
+      sc?.link_expires_at,
+      unknown.result?.isError === true,
     ];
 
     if (checks.every(Boolean)) {
@@ -287,7 +296,7 @@ async function testWidgetsInChrome() {
 
   // Test with real quote data via postMessage
   const realQuote = await mcpRequest("tools/call", {
-    name: "get_motor_quote",
+    name: "estimate_motor_quote",
     arguments: {
       vehicle_make: "Tesla",
       vehicle_model: "Model 3",
@@ -299,7 +308,7 @@ async function testWidgetsInChrome() {
     },
   }, 50);
 
-  const quoteData = realQuote.result?.structuredContent?.data;
+  const quoteData = realQuote.result?.structuredContent;
   if (quoteData) {
     await quotePage.evaluate((data) => {
       window.postMessage(JSON.stringify({ type: "quote_result", data }), "*");
@@ -383,7 +392,7 @@ async function testInputValidation() {
   // Test invalid postcode (non-VIC)
   try {
     const data = await mcpRequest("tools/call", {
-      name: "get_motor_quote",
+      name: "estimate_motor_quote",
       arguments: {
         vehicle_make: "Toyota",
         vehicle_model: "Corolla",
@@ -407,7 +416,7 @@ async function testInputValidation() {
   // Test invalid age
   try {
     const data = await mcpRequest("tools/call", {
-      name: "get_motor_quote",
+      name: "estimate_motor_quote",
       arguments: {
         vehicle_make: "Toyota",
         vehicle_model: "Corolla",
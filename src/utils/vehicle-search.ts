@@ -0,0 +1,99 @@
+import { getRatingData } from "./rating-data.js";
+import { editDistance } from "./fuzzy.js";
+
+/**
+ * Fuzzy search over the vehicles.json catalogue, so "2019 corolla hatch" or
+ * "hilux sr5" can be turned into the exact make and model the estimator needs.
+ */
+
+export interface VehicleMatch {
+  make: string;
+  model: string;
+  category: string;
+  base_value: number;
+  /** 1 = exact make and model; lower scores are closer to a guess. */
+  score: number;
+}
+
+export interface VehicleSearchResult {
+  query: string;
+  /** Year of manufacture, when the query included one. */
+  year?: number;
+  matches: VehicleMatch[];
+}
+
+const MAKE_ALIASES: Record<string, string> = {
+  vw: "volkswagen",
+  merc: "mercedesbenz",
+  mercedes: "mercedesbenz",
+  benz: "mercedesbenz",
+};
+
+// A model word this close (1 = identical) counts as naming the model
+const MODEL_THRESHOLD = 0.75;
+const MAKE_THRESHOLD = 0.8;
+// Scores for partial evidence
+const MODEL_ONLY_WEIGHT = 0.9;
+const MAKE_ONLY_SCORE = 0.5;
+
+function compact(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** 0–1 similarity; a query of 3+ characters that starts the target counts as a strong match ("land" → "landcruiser"). */
+function similarity(query: string, target: string): number {
+  if (query === target) return 1;
+  if (query.length >= 3 && target.startsWith(query)) return 0.85;
+  return 1 - editDistance(query, target) / Math.max(query.length, target.length);
+}
+
+/** Single words plus adjacent pairs joined, so "cx 5" and "santa fe" can match "cx5" and "santafe". */
+function queryTerms(words: string[]): string[] {
+  const terms = words.map(compact).filter(Boolean);
+  for (let i = 0; i + 1 < words.length; i++) terms.push(compact(words[i] + words[i + 1]));
+  return terms;
+}
+
+function bestSimilarity(terms: string[], target: string): number {
+  return terms.reduce((best, term) => Math.max(best, similarity(term, target)), 0);
+}
+
+export function searchVehicles(query: string, limit = 5): VehicleSearchResult {
+  const { vehicles } = getRatingData();
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  const maxYear = new Date().getFullYear() + 1;
+
+  const yearWord = words.find((word) => /^\d{4}$/.test(word) && +word >= 1980 && +word <= maxYear);
+  const terms = queryTerms(words.filter((word) => word !== yearWord));
+  const makeTerms = terms.map((term) => MAKE_ALIASES[term] ?? term);
+
+  const matches: VehicleMatch[] = [];
+  for (const [make, models] of Object.entries(vehicles)) {
+    const makeKey = compact(make);
+    const makeMatched = bestSimilarity(makeTerms, makeKey) >= MAKE_THRESHOLD;
+    // Words that named the make don't also count towards the model ("mazda" vs "Mazda3"),
+    // unless a model is at least as close ("mazda3" is near "mazda" but is the Mazda3)
+    const modelKeys = Object.keys(models).map(compact);
+    const modelTerms = terms.filter((term, i) => {
+      const makeScore = similarity(makeTerms[i], makeKey);
+      return makeScore < MAKE_THRESHOLD || modelKeys.some((modelKey) => similarity(term, modelKey) >= makeScore);
+    });
+    for (const [model, info] of Object.entries(models)) {
+      const modelScore = bestSimilarity(modelTerms, compact(model));
+      let score = 0;
+      if (modelScore >= MODEL_THRESHOLD) {
+        score = makeMatched ? modelScore : modelScore * MODEL_ONLY_WEIGHT;
+      } else if (makeMatched) {
+        score = MAKE_ONLY_SCORE;
+      }
+      if (score > 0) matches.push({ make, model, ...info, score: Math.round(score * 100) / 100 });
+    }
+  }
+
+  matches.sort((a, b) => b.score - a.score || a.make.localeCompare(b.make) || a.model.localeCompare(b.model));
+  return {
+    query,
+    year: yearWord ? parseInt(yearWord, 10) : undefined,
+    matches: matches.slice(0, limit),
+  };
+}